@@ -2,7 +2,14 @@ import * as React from 'react';
 import { render } from 'react-dom';
 import { ObserveViewport, useRect } from 'react-viewport-utils';
 
-import { Sticky, StickyScrollUp, StickyProvider } from '../lib/index';
+import {
+  Sticky,
+  StickyScrollUp,
+  StickyProvider,
+  StickyTableHeader,
+  StickySectionList,
+  StickySection,
+} from '../lib/index';
 
 import './styles.css';
 
@@ -23,6 +30,9 @@ class Example extends React.PureComponent<
   private container5: React.RefObject<any>;
   private container6: React.RefObject<any>;
   private container7: React.RefObject<any>;
+  private container8: React.RefObject<any>;
+  private container9: React.RefObject<any>;
+  private table: React.RefObject<HTMLTableElement>;
 
   constructor(props) {
     super(props);
@@ -33,6 +43,9 @@ class Example extends React.PureComponent<
     this.container5 = React.createRef();
     this.container6 = React.createRef();
     this.container7 = React.createRef();
+    this.container8 = React.createRef();
+    this.container9 = React.createRef();
+    this.table = React.createRef();
     this.state = {
       disableHeader: false,
       disableAll: false,
@@ -78,6 +91,7 @@ class Example extends React.PureComponent<
         <StickyScrollUp
           className="header-container"
           disabled={this.state.disableHeader}
+          tolerance={{ mouse: 0, touch: { up: 50, down: 20 } }}
         >
           {({ isSticky, isNearToViewport }) => (
             <div className="header">
@@ -91,7 +105,7 @@ class Example extends React.PureComponent<
         <div ref={this.container1}>
           <Sticky
             container={this.container1}
-            experimentalNative
+            native
             style={{ marginTop: 100 }}
           >
             <div className="sticky-inline">style: marginTop: 100</div>
@@ -183,7 +197,7 @@ class Example extends React.PureComponent<
           <Sticky
             container={this.container7}
             overflowScroll="flow"
-            experimentalNative
+            native
           >
             <div>
               <DynamicContent />
@@ -191,6 +205,66 @@ class Example extends React.PureComponent<
           </Sticky>
         </div>
 
+        <div ref={this.container8}>
+          <Placeholder />
+          <Sticky container={this.container8} edge="bottom">
+            {({ isSticky, isDockedToTop }) => (
+              <div className="sticky-inline sticky-inline-odd">
+                edge: bottom, isSticky: {isSticky ? 'true' : 'false'},
+                isDockedToTop: {isDockedToTop ? 'true' : 'false'}
+              </div>
+            )}
+          </Sticky>
+        </div>
+
+        <div style={{ width: '200%', display: 'flex' }}>
+          <Sticky edge="left" style={{ width: 300 }}>
+            <div className="sticky-inline">edge: left</div>
+          </Sticky>
+          <Placeholder />
+        </div>
+
+        <div ref={this.container9}>
+          <StickyTableHeader container={this.container9} table={this.table}>
+            <tr>
+              {Array.from({ length: 12 }, (_, index) => (
+                <th key={index}>column {index}</th>
+              ))}
+            </tr>
+          </StickyTableHeader>
+          <div style={{ overflowX: 'auto' }}>
+            <table ref={this.table} style={{ width: '150%' }}>
+              <tbody>
+                {Array.from({ length: 50 }, (_, row) => (
+                  <tr key={row}>
+                    {Array.from({ length: 12 }, (_, index) => (
+                      <td key={index}>
+                        {row} / {index}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <StickySectionList>
+          {['A', 'B', 'C'].map((letter) => (
+            <StickySection
+              key={letter}
+              id={`section-${letter}`}
+              header={({ isSticky }) => (
+                <div className="sticky-inline sticky-inline-odd">
+                  section {letter}, isSticky: {isSticky ? 'true' : 'false'}
+                </div>
+              )}
+            >
+              <Placeholder />
+            </StickySection>
+          ))}
+        </StickySectionList>
+
         <Sticky disableHardwareAcceleration>
           <div className="sticky-inline">disableHardwareAcceleration: true</div>
         </Sticky>
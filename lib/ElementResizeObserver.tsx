@@ -2,7 +2,7 @@ import * as React from 'react';
 import { IRect } from 'react-viewport-utils';
 
 interface IElementResizeObserverProps {
-  stickyRef: React.RefObject<any>;
+  elementRef: React.RefObject<any>;
   onUpdate: (rect: IRect) => void;
 }
 
@@ -28,7 +28,7 @@ class ElementResizeObserver extends React.PureComponent<IElementResizeObserverPr
   }
 
   installObserver() {
-    if (!this.props.stickyRef.current) {
+    if (!this.props.elementRef.current) {
       return;
     }
     if (typeof window.ResizeObserver !== 'undefined') {
@@ -37,7 +37,7 @@ class ElementResizeObserver extends React.PureComponent<IElementResizeObserverPr
           this.props.onUpdate(entries[0].contentRect);
         }
       });
-      this.resizeObserver!.observe(this.props.stickyRef.current);
+      this.resizeObserver!.observe(this.props.elementRef.current);
     }
   }
 
@@ -0,0 +1,63 @@
+/**
+ * Tracks whether a media query matches. Changes are also checked before and
+ * after printing, as not all browsers notify media query lists in that case.
+ */
+export default class MediaQueryObserver {
+  private mediaQueryList: MediaQueryList | null = null;
+  private lastMatches: boolean = true;
+
+  constructor(private onChange: (matches: boolean) => void) {}
+
+  get matches() {
+    return this.lastMatches;
+  }
+
+  observe(query?: string) {
+    this.disconnect();
+    if (
+      !query ||
+      typeof window === 'undefined' ||
+      typeof window.matchMedia !== 'function'
+    ) {
+      this.update(true);
+      return;
+    }
+    this.mediaQueryList = window.matchMedia(query);
+    if (this.mediaQueryList.addEventListener) {
+      this.mediaQueryList.addEventListener('change', this.handleChange);
+    } else {
+      this.mediaQueryList.addListener(this.handleChange);
+    }
+    window.addEventListener('beforeprint', this.handleChange, false);
+    window.addEventListener('afterprint', this.handleChange, false);
+    this.handleChange();
+  }
+
+  disconnect() {
+    if (!this.mediaQueryList) {
+      return;
+    }
+    if (this.mediaQueryList.removeEventListener) {
+      this.mediaQueryList.removeEventListener('change', this.handleChange);
+    } else {
+      this.mediaQueryList.removeListener(this.handleChange);
+    }
+    window.removeEventListener('beforeprint', this.handleChange, false);
+    window.removeEventListener('afterprint', this.handleChange, false);
+    this.mediaQueryList = null;
+  }
+
+  private handleChange = () => {
+    if (this.mediaQueryList) {
+      this.update(this.mediaQueryList.matches);
+    }
+  };
+
+  private update(matches: boolean) {
+    if (matches === this.lastMatches) {
+      return;
+    }
+    this.lastMatches = matches;
+    this.onChange(matches);
+  }
+}
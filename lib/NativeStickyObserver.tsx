@@ -0,0 +1,271 @@
+import * as React from 'react';
+
+import ElementResizeObserver from './ElementResizeObserver';
+import { TStickyEdge } from './types';
+
+export interface INativeStickyState {
+  isSticky: boolean;
+  isDocked: boolean;
+  isNearToViewport: boolean;
+}
+
+interface IProps {
+  edge: TStickyEdge;
+  // the offset to the edge the element sticks to
+  offset: number;
+  // the element with `position: sticky`
+  stickyRef: React.RefObject<HTMLElement>;
+  // a 1px element that marks the position of the sticky element within the flow
+  sentinelRef: React.RefObject<HTMLElement>;
+  scrollContainer?: React.RefObject<HTMLElement>;
+  onChange: (state: INativeStickyState) => void;
+  onResize: () => void;
+}
+
+interface IBounds {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+const nearToViewportPadding = 700;
+
+// the offset changes on every frame while e.g. a `StickyScrollUp` above the
+// element reveals, the observers are only recreated once it settled
+const offsetUpdateDelay = 100;
+
+const isHorizontal = (edge: TStickyEdge) => edge === 'left' || edge === 'right';
+
+// shrinks the root at the given edge only
+const toRootMargin = (edge: TStickyEdge, margin: number) => {
+  const value = `${-Math.round(margin)}px`;
+  switch (edge) {
+    case 'bottom':
+      return `0px 0px ${value} 0px`;
+    case 'left':
+      return `0px 0px 0px ${value}`;
+    case 'right':
+      return `0px ${value} 0px 0px`;
+    default:
+      return `${value} 0px 0px 0px`;
+  }
+};
+
+// whether the rect left the root on the side of the given edge
+const isBeyondEdge = (rect: IBounds, root: IBounds, edge: TStickyEdge) => {
+  switch (edge) {
+    case 'bottom':
+      return rect.bottom > root.bottom;
+    case 'left':
+      return rect.left < root.left;
+    case 'right':
+      return rect.right > root.right;
+    default:
+      return rect.top < root.top;
+  }
+};
+
+/**
+ * Derives the state of an element with native `position: sticky` from
+ * intersection observers instead of measuring the element on every scroll
+ * event. The sentinel is out of the root (shrunk by the offset) as soon as the
+ * element sticks, the container is out of the root (shrunk by the offset and
+ * the size of the element) as soon as the element is docked to its end.
+ */
+class NativeStickyObserver extends React.PureComponent<IProps> {
+  // the observers that depend on the offset and the size of the element
+  private observers: IntersectionObserver[] = [];
+  private nearToViewportObserver: IntersectionObserver | null = null;
+  private observedOffset: number | null = null;
+  private offsetTimeout?: ReturnType<typeof setTimeout>;
+  private stickyState: INativeStickyState = {
+    isSticky: false,
+    isDocked: false,
+    isNearToViewport: false,
+  };
+  private isSentinelBeyondEdge: boolean = false;
+  private isContainerBeyondEdge: boolean = false;
+  private size: number | null = null;
+
+  componentDidMount() {
+    this.observe();
+  }
+
+  componentDidUpdate(prevProps: IProps) {
+    if (
+      prevProps.edge !== this.props.edge ||
+      prevProps.scrollContainer !== this.props.scrollContainer
+    ) {
+      this.observe();
+    } else if (prevProps.offset !== this.props.offset) {
+      this.scheduleObserveEdges();
+    }
+  }
+
+  componentWillUnmount() {
+    this.disconnect();
+  }
+
+  scheduleObserveEdges() {
+    if (this.offsetTimeout !== undefined) {
+      clearTimeout(this.offsetTimeout);
+    }
+    this.offsetTimeout = setTimeout(() => {
+      this.offsetTimeout = undefined;
+      if (Math.round(this.props.offset) !== this.observedOffset) {
+        this.observeEdges();
+      }
+    }, offsetUpdateDelay);
+  }
+
+  get root() {
+    return this.props.scrollContainer
+      ? this.props.scrollContainer.current
+      : null;
+  }
+
+  getRootBounds(entry: IntersectionObserverEntry): IBounds {
+    if (entry.rootBounds) {
+      return entry.rootBounds;
+    }
+    // root bounds are not available within cross origin frames
+    const root = this.root;
+    return root
+      ? root.getBoundingClientRect()
+      : {
+        top: 0,
+        left: 0,
+        bottom: window.innerHeight,
+        right: window.innerWidth,
+      };
+  }
+
+  observe() {
+    this.disconnect();
+    const sticky = this.props.stickyRef.current;
+    if (!sticky || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+    this.observeEdges();
+    this.nearToViewportObserver = new IntersectionObserver(
+      ([entry]) => {
+        this.update({ isNearToViewport: entry.isIntersecting });
+      },
+      { root: this.root, rootMargin: `${nearToViewportPadding}px` },
+    );
+    this.nearToViewportObserver.observe(sticky);
+  }
+
+  observeEdges() {
+    this.disconnectEdges();
+    const { edge, stickyRef, sentinelRef } = this.props;
+    const offset = Math.round(this.props.offset);
+    const sticky = stickyRef.current;
+    const sentinel = sentinelRef.current;
+    // the parent element is always the container of `position: sticky`
+    const container = sticky && sticky.parentElement;
+    if (!sticky || !sentinel || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+    const root = this.root;
+    this.observedOffset = offset;
+    this.size = isHorizontal(edge) ? sticky.offsetWidth : sticky.offsetHeight;
+
+    const sentinelObserver = new IntersectionObserver(
+      ([entry]) => {
+        this.isSentinelBeyondEdge =
+          !entry.isIntersecting &&
+          isBeyondEdge(
+            entry.boundingClientRect,
+            this.getRootBounds(entry),
+            edge,
+          );
+        this.update();
+      },
+      { root, rootMargin: toRootMargin(edge, offset) },
+    );
+    sentinelObserver.observe(sentinel);
+    this.observers.push(sentinelObserver);
+
+    if (container) {
+      const containerObserver = new IntersectionObserver(
+        ([entry]) => {
+          this.isContainerBeyondEdge =
+            !entry.isIntersecting &&
+            isBeyondEdge(
+              entry.boundingClientRect,
+              this.getRootBounds(entry),
+              edge,
+            );
+          this.update();
+        },
+        { root, rootMargin: toRootMargin(edge, offset + this.size) },
+      );
+      containerObserver.observe(container);
+      this.observers.push(containerObserver);
+    }
+  }
+
+  disconnectEdges() {
+    this.observers.forEach((observer) => observer.disconnect());
+    this.observers = [];
+  }
+
+  disconnect() {
+    this.disconnectEdges();
+    if (this.nearToViewportObserver) {
+      this.nearToViewportObserver.disconnect();
+      this.nearToViewportObserver = null;
+    }
+    if (this.offsetTimeout !== undefined) {
+      clearTimeout(this.offsetTimeout);
+      this.offsetTimeout = undefined;
+    }
+  }
+
+  update(nextState: Partial<INativeStickyState> = {}) {
+    const isDocked = this.isContainerBeyondEdge;
+    const state = {
+      ...this.stickyState,
+      isSticky: this.isSentinelBeyondEdge && !isDocked,
+      isDocked,
+      ...nextState,
+    };
+    if (
+      state.isSticky === this.stickyState.isSticky &&
+      state.isDocked === this.stickyState.isDocked &&
+      state.isNearToViewport === this.stickyState.isNearToViewport
+    ) {
+      return;
+    }
+    this.stickyState = state;
+    this.props.onChange(state);
+  }
+
+  handleResize = () => {
+    const sticky = this.props.stickyRef.current;
+    const size = sticky
+      ? isHorizontal(this.props.edge)
+        ? sticky.offsetWidth
+        : sticky.offsetHeight
+      : null;
+    // the margin of the container observer depends on the size
+    if (size !== this.size) {
+      this.observeEdges();
+      // the size is only measured when it changes, not on every scroll event
+      this.props.onResize();
+    }
+  };
+
+  render() {
+    return (
+      <ElementResizeObserver
+        elementRef={this.props.stickyRef}
+        onUpdate={this.handleResize}
+      />
+    );
+  }
+}
+
+export default NativeStickyObserver;
@@ -0,0 +1,43 @@
+import * as React from 'react';
+
+import MediaQueryObserver from './MediaQueryObserver';
+
+interface IProps {
+  query?: string;
+  children: (matches: boolean) => React.ReactNode;
+}
+
+interface IState {
+  matches: boolean;
+}
+
+// the query is evaluated after mounting to render the same markup as on the server
+class ObserveMediaQuery extends React.PureComponent<IProps, IState> {
+  private observer = new MediaQueryObserver((matches) =>
+    this.setState({ matches }),
+  );
+
+  state: IState = {
+    matches: true,
+  };
+
+  componentDidMount() {
+    this.observer.observe(this.props.query);
+  }
+
+  componentDidUpdate(prevProps: IProps) {
+    if (prevProps.query !== this.props.query) {
+      this.observer.observe(this.props.query);
+    }
+  }
+
+  componentWillUnmount() {
+    this.observer.disconnect();
+  }
+
+  render() {
+    return this.props.children(this.state.matches);
+  }
+}
+
+export default ObserveMediaQuery;
@@ -0,0 +1,66 @@
+import * as React from 'react';
+
+import ScrollContainerObserver, { IViewport } from './ScrollContainerObserver';
+
+interface IProps {
+  scrollContainer: React.RefObject<HTMLElement>;
+  disableScrollUpdates: boolean;
+  disableDimensionsUpdates: boolean;
+  onUpdate: (viewport: IViewport, layoutSnapshot: any) => void;
+  recalculateLayoutBeforeUpdate?: (viewport: IViewport) => unknown;
+}
+
+/**
+ * Counterpart of `ObserveViewport` for elements that scroll on their own
+ * (e.g. `overflow: auto`). The scroll and dimensions passed to `onUpdate` are
+ * the ones of the scroll container instead of the window.
+ */
+class ObserveScrollContainer extends React.PureComponent<IProps> {
+  private observer = new ScrollContainerObserver({
+    getElement: () => this.props.scrollContainer.current,
+    notifyScroll: () => !this.props.disableScrollUpdates,
+    notifyDimensions: () => !this.props.disableDimensionsUpdates,
+    onUpdate: (viewport) => {
+      const layoutSnapshot = this.props.recalculateLayoutBeforeUpdate
+        ? this.props.recalculateLayoutBeforeUpdate(viewport)
+        : null;
+      this.props.onUpdate(viewport, layoutSnapshot);
+    },
+  });
+
+  static defaultProps = {
+    disableScrollUpdates: false,
+    disableDimensionsUpdates: false,
+  };
+
+  componentDidMount() {
+    this.observer.observe();
+    this.observer.scheduleUpdate();
+  }
+
+  componentDidUpdate(prevProps: IProps) {
+    const scrollBecameActive =
+      prevProps.disableScrollUpdates && !this.props.disableScrollUpdates;
+    const dimensionsBecameActive =
+      prevProps.disableDimensionsUpdates &&
+      !this.props.disableDimensionsUpdates;
+    if (
+      this.props.scrollContainer.current !== this.observer.element ||
+      scrollBecameActive ||
+      dimensionsBecameActive
+    ) {
+      this.observer.observe();
+      this.observer.scheduleUpdate();
+    }
+  }
+
+  componentWillUnmount() {
+    this.observer.destroy();
+  }
+
+  render(): null {
+    return null;
+  }
+}
+
+export default ObserveScrollContainer;
@@ -0,0 +1,126 @@
+import {
+  IScroll,
+  IDimensions,
+  requestAnimationFrame,
+  cancelAnimationFrame,
+} from 'react-viewport-utils';
+
+import {
+  createEmptyScroll,
+  calcNextScroll,
+  getElementDimensions,
+} from './utils';
+
+export interface IViewport {
+  scroll: IScroll;
+  dimensions: IDimensions;
+}
+
+interface IOptions {
+  getElement: () => HTMLElement | null | undefined;
+  notifyScroll: () => boolean;
+  notifyDimensions: () => boolean;
+  onUpdate: (viewport: IViewport) => void;
+}
+
+/**
+ * Tracks scroll and dimensions of an element that scrolls on its own
+ * (e.g. `overflow: auto`) the same way `react-viewport-utils` does it for the
+ * window. Updates are batched into one per animation frame.
+ */
+export default class ScrollContainerObserver {
+  private scroll: IScroll = createEmptyScroll();
+  private observedElement: HTMLElement | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private tickId?: number;
+
+  constructor(private options: IOptions) {}
+
+  get element() {
+    return this.observedElement;
+  }
+
+  observe() {
+    const element = this.options.getElement() || null;
+    if (element === this.observedElement) {
+      return;
+    }
+    this.disconnect();
+    if (!element) {
+      return;
+    }
+    this.observedElement = element;
+    this.scroll = calcNextScroll(
+      createEmptyScroll(),
+      element.scrollLeft,
+      element.scrollTop,
+    );
+    element.addEventListener('scroll', this.handleScroll, { passive: true });
+    if (typeof window.ResizeObserver !== 'undefined') {
+      this.resizeObserver = new window.ResizeObserver(this.handleResize);
+      this.resizeObserver.observe(element);
+    } else {
+      window.addEventListener('resize', this.handleResize, false);
+    }
+  }
+
+  disconnect() {
+    if (!this.observedElement) {
+      return;
+    }
+    this.observedElement.removeEventListener('scroll', this.handleScroll);
+    this.observedElement = null;
+    if (this.resizeObserver) {
+      this.resizeObserver.disconnect();
+      this.resizeObserver = null;
+    } else {
+      window.removeEventListener('resize', this.handleResize, false);
+    }
+  }
+
+  destroy() {
+    this.disconnect();
+    if (this.tickId !== undefined) {
+      cancelAnimationFrame(this.tickId);
+      this.tickId = undefined;
+    }
+  }
+
+  scheduleUpdate() {
+    if (this.tickId !== undefined) {
+      return;
+    }
+    this.tickId = requestAnimationFrame(this.update);
+  }
+
+  private handleScroll = () => {
+    if (this.options.notifyScroll()) {
+      this.scheduleUpdate();
+    }
+  };
+
+  private handleResize = () => {
+    if (this.options.notifyDimensions()) {
+      this.scheduleUpdate();
+    }
+  };
+
+  private update = () => {
+    this.tickId = undefined;
+    // refs of parent elements are not yet set when a child component mounts
+    this.observe();
+    const element = this.observedElement;
+    if (!element) {
+      return;
+    }
+    this.scroll = calcNextScroll(
+      this.scroll,
+      element.scrollLeft,
+      element.scrollTop,
+    );
+    this.options.onUpdate({
+      scroll: this.scroll,
+      dimensions: getElementDimensions(element),
+    });
+  };
+}
@@ -9,19 +9,57 @@ import {
 import { connect as connectStickyProvider } from './StickyProvider';
 import StickyElement from './StickyElement';
 import StickyPlaceholder from './StickyPlaceholder';
+import ObserveScrollContainer from './ObserveScrollContainer';
+import NativeStickyObserver, {
+  INativeStickyState,
+} from './NativeStickyObserver';
 import {
   TRenderChildren,
   IStickyComponentProps,
   IStickyInjectedProps,
   IPositionStyles,
+  IStickyOffset,
+  TStickyEdge,
+  OverflowScrollType,
+  ICSSVariables,
+  TPositioning,
 } from './types';
 import {
-  supportsWillChange,
   shallowEqualPositionStyles,
   supportsPositionSticky,
+  supportsIntersectionObserver,
+  toEdgeDimensions,
+  fromEdgePositionStyles,
+  getScrollContainerOrigin,
+  toScrollContainerRect,
+  toAlignedPositionStyles,
+  toScrollContainerPositionStyles,
+  toTransformPositionStyles,
+  updateCSSVariables,
+  removeCSSVariables,
+  createStickyCSSVariables,
+  roundToStep,
 } from './utils';
+import { calcStickyLayout, IStickyLayoutOptions } from './layout';
+import { hasDebugListeners, publishDebugInfo, removeDebugInfo } from './debug';
+import { warnStickySetup } from './diagnostics';
 
-type OverflowScrollType = 'flow' | 'end';
+interface IRenderArgs {
+  isSticky: boolean;
+  isDockedToBottom: boolean;
+  isDockedToTop: boolean;
+  isNearToViewport: boolean;
+  appliedOverflowScroll: OverflowScrollType;
+  // only set with `progressStep` or `onProgressChange`
+  progress?: number;
+  stickyRect?: IRect;
+  containerRect?: IRect;
+}
+
+interface IProgressRects {
+  stickyRect?: IRect;
+  containerRect?: IRect;
+}
 
 interface IOwnProps extends IStickyComponentProps {
   /**
@@ -31,12 +69,7 @@ interface IOwnProps extends IStickyComponentProps {
   /**
    * The child node that is rendered within the sticky container. When rendered as a function it will add further information the the function which can be used e.g. to update stylings.
    */
-  children?: TRenderChildren<{
-    isSticky: boolean;
-    isDockedToBottom: boolean;
-    isNearToViewport: boolean;
-    appliedOverflowScroll: OverflowScrollType;
-  }>;
+  children?: TRenderChildren<IRenderArgs>;
   /**
    * Defines how the sticky element should react in case its bigger than the viewport.
    * Different options are available:
@@ -49,7 +82,60 @@ interface IOwnProps extends IStickyComponentProps {
    */
   defaultOffsetTop?: number;
   /**
-   * Tries to detect when the usage of native `position: sticky` is possible and uses it as long as possible. This is an experimental property and might change in its behavior or disappear in the future.
+   * A bottom offset to create a padding between the browser window and the sticky component when sticky. Only used if `edge` is set to `bottom`.
+   */
+  defaultOffsetBottom?: number;
+  /**
+   * The edge of the viewport the component sticks to. Use `bottom` to stick the component to the bottom of the viewport until the top of its container scrolls into view, or `left` or `right` to stick the component while scrolling horizontally, e.g. for the first column of a wide table. The `container` is then respected on the horizontal axis as well.
+   */
+  edge?: TStickyEdge;
+  /**
+   * A left offset to create a padding between the browser window and the sticky component when sticky. Only used if `edge` is set to `left`.
+   */
+  defaultOffsetLeft?: number;
+  /**
+   * A right offset to create a padding between the browser window and the sticky component when sticky. Only used if `edge` is set to `right`.
+   */
+  defaultOffsetRight?: number;
+  /**
+   * Adds the component to the stack of sticky elements of the `StickyProvider`. All sticky components that follow within the document will stick below it instead of overlapping it, as it is already the case for the `StickyScrollUp` component. Only used if `edge` is set to `top`.
+   */
+  stacked?: boolean;
+  /**
+   * Is called whenever the component becomes sticky or stops being sticky, e.g. to track analytics events or to toggle other elements.
+   */
+  onStickyChange?: (isSticky: boolean) => void;
+  /**
+   * Is called whenever the component gets docked to its container or leaves it, which is the case for `isDockedToBottom`, or `isDockedToTop` if `edge` is set to `bottom`.
+   */
+  onDockedChange?: (isDocked: boolean) => void;
+  /**
+   * Is called whenever the component gets near to the viewport or leaves it.
+   */
+  onNearToViewportChange?: (isNearToViewport: boolean) => void;
+  /**
+   * Is called whenever the applied overflow scroll type changes, e.g. when the sticky element becomes bigger than the viewport with `overflowScroll` set to `flow`.
+   */
+  onOverflowScrollChange?: (appliedOverflowScroll: OverflowScrollType) => void;
+  /**
+   * Adds `progress`, `stickyRect` and `containerRect` to the render args of `children`. The `progress` describes how far the element moved through its `container` from `0` (starts to stick) to `1` (docked to the end of the container), the rects are relative to the viewport. To limit the number of renders, the component only re-renders when the progress changes by this step, e.g. `0.01` for every percent.
+   */
+  progressStep?: number;
+  /**
+   * Is called whenever the `progress` changes by the `progressStep`, which defaults to `0.01` for this callback. The rects are passed as the second argument.
+   */
+  onProgressChange?: (progress: number, rects: IProgressRects) => void;
+  /**
+   * Renders the component as sticky before it is measured, e.g. during server side rendering for elements that are sticky from the start of the page like headers. Together with `defaultSize` the server output matches the layout after hydration.
+   */
+  defaultSticky?: boolean;
+  /**
+   * Uses native `position: sticky` in case it is supported by the browser. The state passed to `children` and the change callbacks is derived from intersection observers instead of measuring the element on every scroll event. The offset of stacked sticky elements of the `StickyProvider` is respected. As the native implementation always uses the parent element as the container, the `container` should be the direct parent of the component. With `overflowScroll` set to `flow`, the component falls back to the default implementation as long as the sticky element is bigger than the viewport.
+   */
+  native?: boolean;
+  /**
+   * Tries to detect when the usage of native `position: sticky` is possible and uses it as long as possible.
+   * @deprecated Use `native` instead, this property will be removed in the future.
    */
   experimentalNative?: boolean;
 }
@@ -59,392 +145,633 @@ interface IProps extends IOwnProps, IStickyInjectedProps { }
 interface IState {
   isSticky: boolean;
   isDockedToBottom: boolean;
+  isDockedToTop: boolean;
   isNearToViewport: boolean;
   appliedOverflowScroll: OverflowScrollType;
   styles: IPositionStyles;
   useNativeSticky: boolean;
+  nativeOffset: number;
+  zIndex?: number;
+  progress?: number;
+  progressRects: IProgressRects;
 }
 
 interface ILayoutSnapshot {
   stickyRect?: IRect;
   containerRect: IRect;
+  placeholderRect?: IRect;
 }
 
+// marks the position of the sticky element within the flow without taking space
+const sentinelStyles: { [edge in TStickyEdge]: React.CSSProperties } = {
+  top: { height: 1, marginBottom: -1, visibility: 'hidden' },
+  bottom: { height: 1, marginTop: -1, visibility: 'hidden' },
+  left: {
+    width: 1,
+    height: 1,
+    marginRight: -1,
+    flexShrink: 0,
+    visibility: 'hidden',
+  },
+  right: {
+    width: 1,
+    height: 1,
+    marginLeft: -1,
+    flexShrink: 0,
+    visibility: 'hidden',
+  },
+};
+
 class Sticky extends React.PureComponent<IProps, IState> {
   private stickyRef: React.RefObject<HTMLElement> = React.createRef();
   private placeholderRef: React.RefObject<HTMLElement> = React.createRef();
+  private sentinelRef: React.RefObject<HTMLDivElement> = React.createRef();
   private nativeStickyThrewOnce: boolean = false;
+  private currentStickyOffset: IStickyOffset = { top: 0, height: 0 };
+  // the last known height of the sticky element, also while it is not sticky
+  private stickyHeight: number = 0;
+  // the size of the element towards the edge, it is not measured in native
+  // mode on every update but only when it changes
+  private stickySize: number | null = null;
+  private cssVariables: ICSSVariables = {};
+  private hasDiagnosedSetup: boolean = false;
+  private setupWarnings: string[] = [];
 
   static defaultProps = {
-    stickyOffset: { top: 0, height: 0 },
     defaultOffsetTop: 0,
+    defaultOffsetBottom: 0,
+    defaultOffsetLeft: 0,
+    defaultOffsetRight: 0,
+    edge: 'top' as TStickyEdge,
+    stacked: false,
     disableResizing: false,
     disableHardwareAcceleration: false,
     overflowScroll: 'end' as OverflowScrollType,
+    positioning: 'position' as TPositioning,
+    native: false,
     experimentalNative: false,
     style: {},
   };
 
   state: IState = {
-    isSticky: false,
+    isSticky: Boolean(this.props.defaultSticky),
     isDockedToBottom: false,
+    isDockedToTop: false,
     isNearToViewport: false,
     appliedOverflowScroll: 'end',
-    styles: {},
+    styles: this.getDefaultStyles(),
     useNativeSticky: false,
+    nativeOffset: 0,
+    progressRects: {},
   };
 
+  componentDidUpdate(prevProps: IProps, prevState: IState) {
+    if (this.props.disabled && !prevProps.disabled) {
+      if (process.env.NODE_ENV !== 'production') {
+        removeDebugInfo(this.placeholderRef);
+      }
+      // e.g. the media query stopped matching
+      this.setState({
+        isSticky: false,
+        isDockedToBottom: false,
+        isDockedToTop: false,
+        styles: {},
+        useNativeSticky: false,
+      });
+    }
+    if (prevProps.container !== this.props.container) {
+      this.hasDiagnosedSetup = false;
+    }
+    const {
+      onStickyChange,
+      onDockedChange,
+      onNearToViewportChange,
+      onOverflowScrollChange,
+    } = this.props;
+    if (onStickyChange && prevState.isSticky !== this.state.isSticky) {
+      onStickyChange(this.state.isSticky);
+    }
+    const isDocked = this.state.isDockedToBottom || this.state.isDockedToTop;
+    if (
+      onDockedChange &&
+      (prevState.isDockedToBottom || prevState.isDockedToTop) !== isDocked
+    ) {
+      onDockedChange(isDocked);
+    }
+    if (
+      onNearToViewportChange &&
+      prevState.isNearToViewport !== this.state.isNearToViewport
+    ) {
+      onNearToViewportChange(this.state.isNearToViewport);
+    }
+    if (
+      onOverflowScrollChange &&
+      prevState.appliedOverflowScroll !== this.state.appliedOverflowScroll
+    ) {
+      onOverflowScrollChange(this.state.appliedOverflowScroll);
+    }
+    if (
+      this.props.onProgressChange &&
+      this.state.progress !== undefined &&
+      prevState.progress !== this.state.progress
+    ) {
+      this.props.onProgressChange(
+        this.state.progress,
+        this.state.progressRects,
+      );
+    }
+    if (
+      (this.props.disabled && !prevProps.disabled) ||
+      (!this.hasStickyOffset() && prevProps.edge === 'top')
+    ) {
+      this.props.removeStickyOffset(this.placeholderRef);
+    }
+    if (
+      (this.props.disabled && !prevProps.disabled) ||
+      (this.props.zIndex !== undefined && prevProps.zIndex === undefined)
+    ) {
+      this.props.removeStickyZIndex(this.placeholderRef);
+    }
+    if (
+      (this.props.disabled && !prevProps.disabled) ||
+      (!this.props.cssVariables && prevProps.cssVariables)
+    ) {
+      this.cssVariables = removeCSSVariables(
+        [this.placeholderRef.current, this.stickyRef.current],
+        this.cssVariables,
+      );
+    }
+  }
+
+  componentWillUnmount() {
+    this.props.removeStickyOffset(this.placeholderRef);
+    this.props.removeStickyZIndex(this.placeholderRef);
+    if (process.env.NODE_ENV !== 'production') {
+      removeDebugInfo(this.placeholderRef);
+    }
+  }
+
   get container() {
     return this.props.container || this.placeholderRef;
   }
 
+  get stickyOffset() {
+    // the offset of other sticky elements only applies to the top edge
+    return this.props.edge === 'top'
+      ? this.currentStickyOffset
+      : { top: 0, height: 0 };
+  }
+
+  get defaultOffset() {
+    switch (this.props.edge) {
+      case 'bottom':
+        return this.props.defaultOffsetBottom!;
+      case 'left':
+        return this.props.defaultOffsetLeft!;
+      case 'right':
+        return this.props.defaultOffsetRight!;
+      default:
+        return this.props.defaultOffsetTop!;
+    }
+  }
+
+  // all calculations are done as if the component would stick to the top edge,
+  // therefore this is the offset to the edge defined by the `edge` property
   get offsetTop() {
-    return this.props.stickyOffset.top + this.props.defaultOffsetTop!;
+    return this.stickyOffset.top + this.defaultOffset;
   }
 
   hasContainer = () => {
     return Boolean(this.props.container);
   };
 
-  isNearToViewport = (rect?: IRect): boolean => {
-    const padding = 700;
-    return (rect?.top || 0) - padding < 0 && (rect?.bottom || 0) + padding > 0;
+  isStacked = () => {
+    return Boolean(this.props.stacked) && this.props.edge === 'top';
   };
 
-  getOverflowScrollType = (
-    { rectSticky, dimensions }: {
-      rectSticky?: IRect,
-      dimensions: IDimensions,
-    }
-  ): OverflowScrollType => {
-    return this.props.overflowScroll === 'flow' &&
-      this.calcHeightDifference({ rectSticky, dimensions }) > 0
-      ? 'flow'
-      : 'end';
+  // elements at the top edge are known to the provider, even if they are not
+  // stacked, so that it can scroll targets below them
+  hasStickyOffset = () => {
+    return this.props.edge === 'top';
   };
 
-  isSticky = ({ rect, containerRect, dimensions }: { rect?: IRect, containerRect?: IRect, dimensions: IDimensions }) => {
-    if (!this.hasContainer()) {
-      return Math.round(containerRect?.top || 0) <= this.offsetTop;
-    }
+  getLayoutOptions = (): IStickyLayoutOptions => {
+    return {
+      hasContainer: this.hasContainer(),
+      overflowScroll: this.props.overflowScroll!,
+      offsetTop: this.offsetTop,
+      stickyOffset: this.stickyOffset,
+    };
+  };
 
-    if (Math.round(containerRect?.top || 0) > this.offsetTop) {
-      return false;
+  getDefaultStyles(): IPositionStyles {
+    // elements positioned by transform are not moved at the start of the page
+    if (!this.props.defaultSticky || this.props.positioning === 'transform') {
+      return {};
     }
+    return fromEdgePositionStyles(
+      { position: 'fixed', top: this.defaultOffset },
+      this.props.edge!,
+    );
+  }
 
-    const height =
-      this.props.overflowScroll === 'flow'
-        ? Math.min(rect?.height || 0, dimensions.height)
-        : rect?.height || 0;
-    if (Math.round(containerRect?.bottom || 0) - this.offsetTop < height) {
-      return false;
+  getProgressStep = () => {
+    if (this.props.progressStep) {
+      return this.props.progressStep;
     }
+    return this.props.onProgressChange ? 0.01 : 0;
+  };
 
-    return true;
+  isNativeRequested = () => {
+    return (
+      Boolean(this.props.native || this.props.experimentalNative) &&
+      supportsPositionSticky &&
+      supportsIntersectionObserver
+    );
   };
 
-  shouldUseNativeSticky = (appliedOverflowScroll: OverflowScrollType) => {
-    if (
-      !this.props.experimentalNative ||
-      !supportsPositionSticky ||
-      appliedOverflowScroll !== 'end' ||
-      this.props.stickyOffset.top !== 0
-    ) {
-      return false;
+  measureStickySize = () => {
+    const sticky = this.stickyRef.current;
+    const edge = this.props.edge!;
+    this.stickySize = !sticky
+      ? null
+      : edge === 'left' || edge === 'right'
+      ? sticky.offsetWidth
+      : sticky.offsetHeight;
+    return this.stickySize;
+  };
+
+  // native sticky elements can not flow within the viewport
+  canUseNativeSticky = (dimensions: IDimensions) => {
+    if (this.props.overflowScroll !== 'flow') {
+      return true;
     }
+    const size =
+      this.stickySize !== null ? this.stickySize : this.measureStickySize();
+    return (
+      size === null ||
+      size <= toEdgeDimensions(dimensions, this.props.edge!).height
+    );
+  };
 
+  warnNativeContainer = () => {
     if (
       process.env.NODE_ENV !== 'production' &&
       !this.nativeStickyThrewOnce &&
-      (this.placeholderRef && this.placeholderRef.current?.parentElement) !==
-      (this.props.container && this.props.container.current)
+      this.props.container &&
+      this.placeholderRef.current?.parentElement !==
+      this.props.container.current
     ) {
       console.warn(
-        'react-stickup: a sticky element was used with property `experimentalNative` but its `container` is not the parent the sticky component. As the native sticky implementation always uses its parent element as the container. This can lead to unexpected results. It is therefore recommended to change the DOM structure so that the container is a direct parent of the Sticky component or to remove the `experimentalNative` property.',
+        'react-stickup: a sticky element was used with property `native` but its `container` is not the parent the sticky component. As the native sticky implementation always uses its parent element as the container. This can lead to unexpected results. It is therefore recommended to change the DOM structure so that the container is a direct parent of the Sticky component or to remove the `native` property.',
       );
       this.nativeStickyThrewOnce = true;
     }
-    return true;
   };
 
-  isDockedToBottom = (
-    { rect, containerRect, dimensions }: {
-      rect?: IRect,
-      containerRect: IRect,
-      dimensions: IDimensions,
-    }
-  ) => {
-    if (!rect || !containerRect) {
-      return false;
-    }
-
-    if (!this.hasContainer()) {
-      return false;
-    }
-
-    if (rect.height > containerRect.height) {
-      return false;
-    }
-
-    const height =
-      this.props.overflowScroll === 'flow'
-        ? Math.min(rect.height, dimensions.height)
-        : rect.height;
-    if (Math.round(containerRect.bottom) - this.offsetTop >= height) {
-      return false;
-    }
+  measureStickyRect = () => {
+    const scrollContainer = this.props.scrollContainer?.current;
+    return toScrollContainerRect(
+      this.stickyRef.current?.getBoundingClientRect(),
+      scrollContainer ? getScrollContainerOrigin(scrollContainer) : null,
+    );
+  };
 
-    return true;
+  handleZIndexChange = (zIndex?: number) => {
+    this.setState({ zIndex });
   };
 
-  calcHeightDifference({ rectSticky, dimensions }: { rectSticky?: IRect, dimensions: IDimensions }) {
-    if (!dimensions) {
-      return 0;
-    }
-    return Math.max(0, Math.round(rectSticky?.height || 0) - dimensions.height);
+  get zIndex() {
+    return this.props.zIndex !== undefined
+      ? this.props.zIndex
+      : this.state.zIndex;
   }
 
-  calcOverflowScrollFlowStickyStyles(
-    { rectSticky, containerRect, scroll, dimensions }: {
-      rectSticky?: IRect,
-      containerRect: IRect,
-      scroll: IScroll,
-      dimensions: IDimensions,
-    }
-  ): IPositionStyles {
-    const containerTop = Math.round(containerRect.top);
-    const stickyTop = Math.round(rectSticky?.top || 0);
-    const scrollY = Math.round(scroll.y);
-    const scrollYTurn = Math.round(scroll.yTurn);
-    const heightDiff = this.calcHeightDifference({ rectSticky, dimensions });
-    const containerTopOffset =
-      containerTop + scrollY - this.props.stickyOffset.height;
-    const isStickyBottomReached =
-      Math.round(rectSticky?.bottom || 0) <= dimensions.height;
-    const isContainerTopReached = containerTop < this.offsetTop;
-    const isTurnWithinHeightOffset =
-      scrollYTurn - heightDiff <= containerTopOffset;
-    const isTurnPointBeforeContainer = scrollYTurn < containerTopOffset;
-    const isTurnPointAfterContainer =
-      scrollYTurn > containerTopOffset + containerRect.height;
-    const isTurnPointWithinContainer = !(
-      isTurnPointBeforeContainer || isTurnPointAfterContainer
-    );
-    // scroll down AND sticky rect bottom not reached AND turn point not within the container OR
-    // scroll up AND container top not reached OR
-    //scroll up AND turns within the height diff AND turn point not within the container
-    if (
-      (scroll.isScrollingDown &&
-        !isStickyBottomReached &&
-        !isTurnPointWithinContainer) ||
-      (scroll.isScrollingUp && !isContainerTopReached) ||
-      (scroll.isScrollingUp &&
-        isTurnWithinHeightOffset &&
-        !isTurnPointWithinContainer)
-    ) {
-      return {
-        position: 'absolute',
-        top: 0,
-      };
-    }
-
-    // scroll down AND sticky bottom reached
-    if (scroll.isScrollingDown && isStickyBottomReached) {
-      return {
-        position: 'fixed',
-        top: -heightDiff,
-      };
-    }
-
-    const isStickyTopReached = stickyTop >= this.offsetTop;
-    // scroll down AND turn point within container OR
-    // scroll up AND turn point not before container AND not sticky top reached
-    if (
-      (scroll.isScrollingDown && isTurnPointWithinContainer) ||
-      (scroll.isScrollingUp &&
-        !isTurnPointBeforeContainer &&
-        !isStickyTopReached)
-    ) {
-      return {
-        position: 'absolute',
-        top: Math.abs(scrollY - stickyTop + (containerTop - scrollY)),
-      };
+  publishCSSVariables = (height: number, isSticky: boolean) => {
+    if (!this.props.cssVariables) {
+      return;
     }
+    this.cssVariables = updateCSSVariables(
+      [this.placeholderRef.current, this.stickyRef.current],
+      createStickyCSSVariables({
+        offset: this.offsetTop,
+        height,
+        isSticky,
+      }),
+      this.cssVariables,
+    );
+  };
 
-    return {
-      position: 'fixed',
-      top: this.offsetTop,
-    };
-  }
-
-  calcPositionStyles(
-    { rectSticky, containerRect, scroll, dimensions }: {
-      rectSticky?: IRect,
-      containerRect: IRect,
-      scroll: IScroll,
-      dimensions: IDimensions,
-    }
-  ): IPositionStyles {
-    if (this.isSticky({ rect: rectSticky, containerRect, dimensions })) {
-      if (this.getOverflowScrollType({ rectSticky, dimensions }) === 'flow') {
-        return this.calcOverflowScrollFlowStickyStyles(
+  handleNativeUpdate = () => {
+    const nativeOffset = this.offsetTop;
+    if (this.isStacked()) {
+      // while sticky the element is placed at the offset, it is only measured
+      // while it moves together with its container
+      if (this.state.isSticky) {
+        this.updateStackedOffset(
           {
-            rectSticky,
-            containerRect,
-            scroll,
-            dimensions,
-          }
+            bottom: nativeOffset + this.stickyHeight,
+            height: this.stickyHeight,
+          },
+          true,
+        );
+      } else {
+        const isDocked = this.state.isDockedToBottom;
+        this.updateStackedOffset(
+          isDocked ? this.measureStickyRect() : undefined,
+          isDocked,
         );
       }
-      const stickyOffset = this.props.stickyOffset.top;
-      const stickyHeight = this.props.stickyOffset.height;
-      const headIsFlexible = stickyOffset > 0 && stickyOffset < stickyHeight;
-      if (headIsFlexible) {
-        const relYTurn =
-          Math.round(scroll.yTurn - scroll.y + scroll.yDTurn) -
-          Math.round(containerRect.top);
-        return {
-          position: 'absolute',
-          top: relYTurn + this.offsetTop,
-        };
-      }
-
-      return {
-        position: 'fixed',
-        top: this.offsetTop,
-      };
     }
-
-    if (this.isDockedToBottom({ rect: rectSticky, containerRect, dimensions })) {
-      return {
-        position: 'absolute',
-        top: containerRect.height - (rectSticky?.height || 0),
-      };
+    if (
+      this.state.useNativeSticky &&
+      this.state.nativeOffset === nativeOffset
+    ) {
+      return;
     }
+    this.warnNativeContainer();
+    this.setState({
+      useNativeSticky: true,
+      nativeOffset,
+      styles: {},
+      appliedOverflowScroll: 'end',
+    });
+  };
 
-    return {
-      position: 'absolute',
-      top: 0,
-    };
-  }
-
-  getStickyStyles(
-    { rect, containerRect, scroll, dimensions }: {
-      rect?: IRect,
-      containerRect: IRect,
-      scroll: IScroll,
-      dimensions: IDimensions,
-    }
-  ): IPositionStyles {
-    const styles = this.calcPositionStyles(
-      {
-        rectSticky: rect,
-        containerRect,
-        scroll,
-        dimensions,
-      }
+  handleNativeChange = ({
+    isSticky,
+    isDocked,
+    isNearToViewport,
+  }: INativeStickyState) => {
+    const edge = this.props.edge!;
+    this.measureStickySize();
+    if (this.hasStickyOffset()) {
+      this.updateStackedOffset(
+        this.measureStickyRect(),
+        isSticky || (isDocked && this.hasContainer()),
+      );
+    }
+    this.publishCSSVariables(
+      this.stickyRef.current ? this.stickyRef.current.offsetHeight : 0,
+      isSticky,
     );
+    this.setState({
+      isSticky,
+      isDockedToBottom: edge !== 'bottom' && isDocked,
+      isDockedToTop: edge === 'bottom' && isDocked,
+      isNearToViewport,
+    });
+  };
 
-    if (!this.props.disableHardwareAcceleration) {
-      const shouldAccelerate = this.isNearToViewport(rect);
-      if (supportsWillChange) {
-        styles.willChange = shouldAccelerate ? 'position, top' : undefined;
-      } else {
-        styles.transform = shouldAccelerate ? `translateZ(0)` : undefined;
-      }
+  handleNativeResize = () => {
+    this.measureStickySize();
+    if (this.hasStickyOffset()) {
+      this.updateStackedOffset(
+        this.measureStickyRect(),
+        this.state.isSticky ||
+          (this.state.isDockedToBottom && this.hasContainer()),
+      );
     }
+  };
 
-    return styles;
-  }
-
-  recalculateLayoutBeforeUpdate = (): ILayoutSnapshot => {
+  recalculateLayoutBeforeUpdate = (): ILayoutSnapshot | null => {
+    // native sticky elements are not measured on every update
+    if (this.state.useNativeSticky) {
+      return null;
+    }
+    const scrollContainer = this.props.scrollContainer?.current;
+    // within a scroll container all rects are relative to its visible area
+    const origin = scrollContainer
+      ? getScrollContainerOrigin(scrollContainer)
+      : null;
     const containerRect = this.container.current?.getBoundingClientRect();
     const stickyRect = this.stickyRef.current?.getBoundingClientRect();
+    const placeholderRect = this.hasContainer()
+      ? this.placeholderRef.current?.getBoundingClientRect()
+      : containerRect;
     return {
-      stickyRect,
-      containerRect,
+      stickyRect: toScrollContainerRect(stickyRect, origin),
+      containerRect: toScrollContainerRect(containerRect, origin)!,
+      placeholderRect: toScrollContainerRect(placeholderRect, origin),
     };
   };
 
+  updateStackedOffset = (
+    stickyRect: Pick<IRect, 'bottom' | 'height'> | undefined,
+    isActive: boolean,
+  ) => {
+    if (stickyRect) {
+      this.stickyHeight = Math.round(stickyRect.height);
+    }
+    const options = {
+      stacked: this.isStacked(),
+      stickyHeight: this.stickyHeight,
+      container: this.props.container,
+    };
+    // only sticky or docked elements cover the elements that follow
+    if (!stickyRect || !isActive) {
+      this.props.updateStickyOffset(this.placeholderRef, 0, 0, options);
+      return;
+    }
+    this.props.updateStickyOffset(
+      this.placeholderRef,
+      Math.max(Math.round(stickyRect.bottom), 0),
+      this.currentStickyOffset.height + this.stickyHeight,
+      options,
+    );
+  };
+
   handleScrollUpdate = (
-    { scroll, dimensions }: { scroll: IScroll; dimensions: IDimensions },
-    { stickyRect, containerRect }: ILayoutSnapshot,
+    viewport: { scroll: IScroll; dimensions: IDimensions },
+    layout: ILayoutSnapshot | null,
   ) => {
     if (this.props.disabled) {
       return;
     }
-    // in case children is not a function renderArgs will never be used
-    const willRenderAsAFunction = typeof this.props.children === 'function';
-    const appliedOverflowScroll = this.getOverflowScrollType({
-      rectSticky: stickyRect,
-      dimensions,
+    this.currentStickyOffset = this.props.getStickyOffset(this.placeholderRef);
+    if (
+      this.isNativeRequested() &&
+      this.canUseNativeSticky(viewport.dimensions)
+    ) {
+      this.handleNativeUpdate();
+      return;
+    }
+    if (!layout) {
+      // the layout was not measured in native mode, it will be on the next update
+      this.setState({ useNativeSticky: false });
+      return;
+    }
+    const edge = this.props.edge!;
+    if (layout.stickyRect) {
+      this.stickySize =
+        edge === 'left' || edge === 'right'
+          ? layout.stickyRect.width
+          : layout.stickyRect.height;
+    }
+    // in case children is not a function renderArgs will never be used,
+    // except that the state is required to update the stack of sticky elements
+    // or to notify about changes
+    const shouldCalculateState =
+      typeof this.props.children === 'function' ||
+      this.isStacked() ||
+      Boolean(
+        this.props.onStickyChange ||
+          this.props.onDockedChange ||
+          this.props.cssVariables,
+      );
+    const stickyLayout = calcStickyLayout({
+      edge,
+      stickyRect: layout.stickyRect,
+      containerRect: layout.containerRect,
+      scroll: viewport.scroll,
+      dimensions: viewport.dimensions,
+      disableHardwareAcceleration: this.props.disableHardwareAcceleration,
+      options: this.getLayoutOptions(),
     });
+    const { appliedOverflowScroll, isNearToViewport } = stickyLayout;
 
-    const useNativeSticky = this.shouldUseNativeSticky(appliedOverflowScroll);
-
-    const styles = useNativeSticky
-      ? {}
-      : this.getStickyStyles({ rect: stickyRect, containerRect, scroll, dimensions });
+    let styles = toAlignedPositionStyles(
+      stickyLayout.styles,
+      edge,
+      layout.placeholderRect,
+    );
+    if (this.props.scrollContainer && layout.placeholderRect) {
+      styles = toScrollContainerPositionStyles(
+        styles,
+        layout.placeholderRect,
+        viewport.dimensions,
+      );
+    }
+    if (this.props.positioning === 'transform' && layout.placeholderRect) {
+      styles = toTransformPositionStyles(
+        styles,
+        layout.placeholderRect,
+        viewport.dimensions,
+      );
+    }
     const stateStyles = this.state.styles;
     const stylesDidChange = !shallowEqualPositionStyles(styles, stateStyles);
-    const isSticky = willRenderAsAFunction
-      ? this.isSticky({ rect: stickyRect, containerRect, dimensions })
-      : false;
-    const isDockedToBottom = willRenderAsAFunction
-      ? this.isDockedToBottom({ rect: stickyRect, containerRect, dimensions })
-      : false;
-    const isNearToViewport = this.isNearToViewport(stickyRect);
-    const useNativeStickyDidChange =
-      this.state.useNativeSticky !== useNativeSticky;
+    const isSticky = shouldCalculateState ? stickyLayout.isSticky : false;
+    const isDocked = shouldCalculateState ? stickyLayout.isDocked : false;
+    // when sticking to the bottom edge, the component docks to the top of its container
+    const isDockedToBottom = edge !== 'bottom' && isDocked;
+    const isDockedToTop = edge === 'bottom' && isDocked;
+    if (this.hasStickyOffset()) {
+      this.updateStackedOffset(
+        layout.stickyRect,
+        stickyLayout.isSticky || stickyLayout.isDocked,
+      );
+    }
+    this.publishCSSVariables(
+      layout.stickyRect ? layout.stickyRect.height : 0,
+      isSticky,
+    );
+    if (process.env.NODE_ENV !== 'production' && hasDebugListeners()) {
+      const scrollContainer = this.props.scrollContainer?.current;
+      publishDebugInfo(this.placeholderRef, {
+        name: 'Sticky',
+        edge,
+        origin: scrollContainer
+          ? getScrollContainerOrigin(scrollContainer)
+          : null,
+        ...layout,
+        ...viewport,
+        offsetTop: this.offsetTop,
+        stickyOffset: this.stickyOffset,
+        overflowScroll: this.props.overflowScroll!,
+        appliedOverflowScroll,
+        state: {
+          isSticky: stickyLayout.isSticky,
+          isDocked: stickyLayout.isDocked,
+          isNearToViewport,
+        },
+        styles,
+      });
+    }
+    if (this.props.zIndex === undefined) {
+      this.props.updateStickyZIndex(
+        this.placeholderRef,
+        stickyLayout.isSticky,
+        this.handleZIndexChange,
+      );
+    }
+    if (process.env.NODE_ENV !== 'production' && !this.hasDiagnosedSetup) {
+      this.hasDiagnosedSetup = true;
+      this.setupWarnings = warnStickySetup(
+        {
+          name: 'Sticky',
+          placeholder: this.placeholderRef.current,
+          container: this.container.current,
+          scrollContainer: this.props.scrollContainer?.current,
+          hasProvider: this.props.hasProvider,
+          usesFixedPosition:
+            this.props.positioning !== 'transform' &&
+            !this.props.scrollContainer,
+          stickyRect: layout.stickyRect,
+          containerRect: layout.containerRect,
+        },
+        this.setupWarnings,
+      );
+    }
     const isStickyDidChange = this.state.isSticky !== isSticky;
     const isDockedToBottomDidChange =
       this.state.isDockedToBottom !== isDockedToBottom;
+    const isDockedToTopDidChange = this.state.isDockedToTop !== isDockedToTop;
     const isNearToViewportDidChange =
       this.state.isNearToViewport !== isNearToViewport;
     const appliedOverflowScrollDidChange =
       appliedOverflowScroll !== this.state.appliedOverflowScroll;
+    // the progress changes on every scroll event, it is rounded to re-render less
+    const progressStep = this.getProgressStep();
+    const progress = progressStep
+      ? roundToStep(stickyLayout.progress, progressStep)
+      : undefined;
+    const progressDidChange = this.state.progress !== progress;
 
     if (
-      !useNativeStickyDidChange &&
       !stylesDidChange &&
       !isStickyDidChange &&
       !isDockedToBottomDidChange &&
+      !isDockedToTopDidChange &&
       !isNearToViewportDidChange &&
-      !appliedOverflowScrollDidChange
+      !appliedOverflowScrollDidChange &&
+      !progressDidChange
     ) {
       return;
     }
 
     this.setState({
-      useNativeSticky,
       isSticky,
       isDockedToBottom,
+      isDockedToTop,
       isNearToViewport,
       appliedOverflowScroll,
       styles: stylesDidChange ? styles : stateStyles,
+      progress,
+      progressRects: progressDidChange
+        ? { stickyRect: layout.stickyRect, containerRect: layout.containerRect }
+        : this.state.progressRects,
     });
   };
 
   renderSticky = ({ isRecalculating }: { isRecalculating: boolean }) => {
     const { children, disabled, stickyProps } = this.props;
     return (
-      <StickyElement<
-        TRenderChildren<{
-          isSticky: boolean;
-          isDockedToBottom: boolean;
-          isNearToViewport: boolean;
-          appliedOverflowScroll: OverflowScrollType;
-        }>
-      >
+      <StickyElement<TRenderChildren<IRenderArgs>>
         forwardRef={this.stickyRef}
         positionStyle={this.state.styles}
+        zIndex={this.zIndex}
         disabled={disabled || isRecalculating}
         children={children}
         renderArgs={{
           isSticky: this.state.isSticky,
           isDockedToBottom: this.state.isDockedToBottom,
+          isDockedToTop: this.state.isDockedToTop,
           isNearToViewport: this.state.isNearToViewport,
           appliedOverflowScroll: this.state.appliedOverflowScroll,
+          ...(this.state.progress !== undefined
+            ? { progress: this.state.progress, ...this.state.progressRects }
+            : {}),
         }}
         {...stickyProps}
       />
@@ -458,16 +785,29 @@ class Sticky extends React.PureComponent<IProps, IState> {
       style,
       className,
       overflowScroll,
+      edge,
+      scrollContainer,
+      defaultSize,
     } = this.props;
+    const disableDimensionsUpdates =
+      disabled ||
+      (overflowScroll !== 'flow' && edge !== 'right' && edge !== 'bottom');
+    const useNativeSticky =
+      this.state.useNativeSticky && !disabled && this.isNativeRequested();
+    const sentinel = useNativeSticky && (
+      <div ref={this.sentinelRef} style={sentinelStyles[edge!]} />
+    );
     return (
       <>
+        {(edge === 'top' || edge === 'left') && sentinel}
         <StickyPlaceholder
           className={className}
           style={
-            this.state.useNativeSticky
+            useNativeSticky
               ? {
                 position: 'sticky',
-                top: this.props.defaultOffsetTop,
+                [edge!]: this.state.nativeOffset,
+                zIndex: this.zIndex,
                 ...style,
               }
               : style
@@ -475,17 +815,41 @@ class Sticky extends React.PureComponent<IProps, IState> {
           disabled={!!disabled}
           forwardRef={this.placeholderRef}
           stickyRef={this.stickyRef}
+          scrollContainer={scrollContainer}
           disableResizing={!!disableResizing}
+          defaultSize={defaultSize}
         >
           {this.renderSticky}
         </StickyPlaceholder>
-        <ObserveViewport
-          disableScrollUpdates={disabled}
-          disableDimensionsUpdates={disabled || overflowScroll !== 'flow'}
-          onUpdate={this.handleScrollUpdate as any}
-          recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
-          priority={this.state.isNearToViewport ? 'highest' : 'low'}
-        />
+        {(edge === 'bottom' || edge === 'right') && sentinel}
+        {useNativeSticky && (
+          <NativeStickyObserver
+            edge={edge!}
+            offset={this.state.nativeOffset}
+            stickyRef={this.placeholderRef}
+            sentinelRef={this.sentinelRef}
+            scrollContainer={scrollContainer}
+            onChange={this.handleNativeChange}
+            onResize={this.handleNativeResize}
+          />
+        )}
+        {scrollContainer ? (
+          <ObserveScrollContainer
+            scrollContainer={scrollContainer}
+            disableScrollUpdates={!!disabled}
+            disableDimensionsUpdates={!!disableDimensionsUpdates}
+            onUpdate={this.handleScrollUpdate}
+            recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
+          />
+        ) : (
+          <ObserveViewport
+            disableScrollUpdates={disabled}
+            disableDimensionsUpdates={disableDimensionsUpdates}
+            onUpdate={this.handleScrollUpdate as any}
+            recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
+            priority={this.state.isNearToViewport ? 'highest' : 'low'}
+          />
+        )}
       </>
     );
   }
@@ -0,0 +1,408 @@
+import * as React from 'react';
+import {
+  ObserveViewport,
+  IRect,
+  IScroll,
+  IDimensions,
+} from 'react-viewport-utils';
+
+import { connect as connectStickyProvider } from './StickyProvider';
+import StickyElement from './StickyElement';
+import StickyPlaceholder from './StickyPlaceholder';
+import ObserveScrollContainer from './ObserveScrollContainer';
+import {
+  TRenderChildren,
+  IStickyComponentProps,
+  IStickyInjectedProps,
+  IPositionStyles,
+  ICSSVariables,
+  TPositioning,
+} from './types';
+import {
+  shallowEqualPositionStyles,
+  getScrollContainerOrigin,
+  toScrollContainerRect,
+  toAlignedPositionStyles,
+  toScrollContainerPositionStyles,
+  toTransformPositionStyles,
+  updateCSSVariables,
+  removeCSSVariables,
+  createStickyCSSVariables,
+} from './utils';
+import { calcCollapseLayout } from './layout';
+import { hasDebugListeners, publishDebugInfo, removeDebugInfo } from './debug';
+import { warnStickySetup } from './diagnostics';
+
+interface IRenderArgs {
+  collapseProgress: number;
+  isSticky: boolean;
+}
+
+interface IOwnProps extends IStickyComponentProps {
+  /**
+   * The child node that is rendered within the sticky container. When rendered as a function it receives the `collapseProgress` from `0` (expanded) to `1` (collapsed), e.g. to scale down a logo or to fade out a subtitle.
+   */
+  children?: TRenderChildren<IRenderArgs>;
+  /**
+   * The height in pixels the element shrinks to while scrolling down. Once collapsed it stays sticky with this height.
+   */
+  collapsedHeight: number;
+  /**
+   * A top offset to create a padding between the browser window and the element when sticky.
+   */
+  defaultOffsetTop?: number;
+  /**
+   * Is called whenever the element becomes sticky or stops being sticky.
+   */
+  onStickyChange?: (isSticky: boolean) => void;
+  /**
+   * Is called whenever the element is fully collapsed or starts to expand again.
+   */
+  onCollapseChange?: (isCollapsed: boolean) => void;
+}
+
+interface IProps extends IOwnProps, IStickyInjectedProps { }
+
+interface IState {
+  styles: IPositionStyles;
+  isNearToViewport: boolean;
+  isSticky: boolean;
+  collapseProgress: number;
+  // the height of the sticky element while it collapses
+  height?: number;
+  zIndex?: number;
+}
+
+class StickyCollapse extends React.PureComponent<IProps, IState> {
+  private stickyRef: React.RefObject<any> = React.createRef();
+  private placeholderRef: React.RefObject<any> = React.createRef();
+  private stickyOffset: number | null = null;
+  private stickyOffsetHeight: number = 0;
+  private expandedHeight: number = 0;
+  private cssVariables: ICSSVariables = {};
+  private hasDiagnosedSetup: boolean = false;
+
+  static defaultProps = {
+    defaultOffsetTop: 0,
+    disableHardwareAcceleration: false,
+    disableResizing: false,
+    positioning: 'position' as TPositioning,
+    style: {},
+  };
+
+  state: IState = {
+    styles: {},
+    isNearToViewport: false,
+    isSticky: false,
+    collapseProgress: 0,
+  };
+
+  componentDidUpdate(prevProps: IProps, prevState: IState) {
+    if (this.props.disabled && !prevProps.disabled) {
+      if (process.env.NODE_ENV !== 'production') {
+        removeDebugInfo(this.placeholderRef);
+      }
+      // e.g. the media query stopped matching
+      this.setState({
+        isSticky: false,
+        styles: {},
+        collapseProgress: 0,
+        height: undefined,
+      });
+    }
+    const { onStickyChange, onCollapseChange } = this.props;
+    if (onStickyChange && prevState.isSticky !== this.state.isSticky) {
+      onStickyChange(this.state.isSticky);
+    }
+    const isCollapsed = this.state.collapseProgress === 1;
+    if (
+      onCollapseChange &&
+      (prevState.collapseProgress === 1) !== isCollapsed
+    ) {
+      onCollapseChange(isCollapsed);
+    }
+    if (this.props.disabled && !prevProps.disabled) {
+      // the offset is registered again with the first update once enabled
+      this.stickyOffset = null;
+      this.stickyOffsetHeight = 0;
+      this.props.removeStickyOffset(this.placeholderRef);
+    }
+    if (
+      (this.props.disabled && !prevProps.disabled) ||
+      (this.props.zIndex !== undefined && prevProps.zIndex === undefined)
+    ) {
+      this.props.removeStickyZIndex(this.placeholderRef);
+    }
+    if (
+      (this.props.disabled && !prevProps.disabled) ||
+      (!this.props.cssVariables && prevProps.cssVariables)
+    ) {
+      this.cssVariables = removeCSSVariables(
+        [this.placeholderRef.current, this.stickyRef.current],
+        this.cssVariables,
+      );
+    }
+  }
+
+  componentWillUnmount() {
+    this.props.removeStickyOffset(this.placeholderRef);
+    this.props.removeStickyZIndex(this.placeholderRef);
+    if (process.env.NODE_ENV !== 'production') {
+      removeDebugInfo(this.placeholderRef);
+    }
+  }
+
+  // stacked sticky elements below move up while the element collapses, it
+  // only covers them while it is sticky
+  updateStickyOffset = (offset: number, height: number) => {
+    const nextOffset = Math.max(Math.round(offset), 0);
+    if (
+      this.stickyOffset === nextOffset &&
+      this.stickyOffsetHeight === height
+    ) {
+      return;
+    }
+    this.stickyOffset = nextOffset;
+    this.stickyOffsetHeight = height;
+    this.props.updateStickyOffset(this.placeholderRef, nextOffset, height, {
+      stickyHeight: this.props.collapsedHeight,
+    });
+  };
+
+  recalculateLayoutBeforeUpdate = (): {
+    stickyRect: IRect;
+    placeholderRect: IRect;
+  } => {
+    const scrollContainer = this.props.scrollContainer?.current;
+    // within a scroll container all rects are relative to its visible area
+    const origin = scrollContainer
+      ? getScrollContainerOrigin(scrollContainer)
+      : null;
+    return {
+      placeholderRect: toScrollContainerRect(
+        this.placeholderRef.current.getBoundingClientRect(),
+        origin,
+      )!,
+      stickyRect: toScrollContainerRect(
+        this.stickyRef.current.getBoundingClientRect(),
+        origin,
+      )!,
+    };
+  };
+
+  handleViewportUpdate = (
+    { scroll, dimensions }: { scroll: IScroll; dimensions: IDimensions },
+    {
+      stickyRect,
+      placeholderRect,
+    }: { stickyRect: IRect; placeholderRect: IRect },
+  ) => {
+    if (this.props.disabled) {
+      return;
+    }
+    // the element is only measured at its natural height while not collapsing
+    if (this.state.height === undefined) {
+      this.expandedHeight = stickyRect.height;
+    }
+    const stickyOffset = this.props.getStickyOffset(this.placeholderRef);
+    const offsetTop = stickyOffset.top + this.props.defaultOffsetTop!;
+    const {
+      styles,
+      isSticky,
+      isNearToViewport,
+      collapseProgress,
+      height,
+    } = calcCollapseLayout({
+      placeholderRect,
+      expandedHeight: this.expandedHeight,
+      collapsedHeight: this.props.collapsedHeight,
+      offsetTop,
+      disableHardwareAcceleration: this.props.disableHardwareAcceleration,
+    });
+    const alignedStyles = toAlignedPositionStyles(
+      styles,
+      'top',
+      placeholderRect,
+    );
+    let positionStyles = this.props.scrollContainer
+      ? toScrollContainerPositionStyles(
+          alignedStyles,
+          placeholderRect,
+          dimensions,
+        )
+      : alignedStyles;
+    if (this.props.positioning === 'transform') {
+      positionStyles = toTransformPositionStyles(
+        positionStyles,
+        placeholderRect,
+        dimensions,
+      );
+    }
+
+    if (isSticky) {
+      this.updateStickyOffset(offsetTop + height, stickyOffset.height + height);
+    } else {
+      this.updateStickyOffset(0, 0);
+    }
+
+    if (this.props.cssVariables) {
+      this.cssVariables = updateCSSVariables(
+        [this.placeholderRef.current, this.stickyRef.current],
+        {
+          ...createStickyCSSVariables({
+            offset: offsetTop,
+            height,
+            isSticky,
+          }),
+          '--sticky-collapse-progress': String(collapseProgress),
+        },
+        this.cssVariables,
+      );
+    }
+
+    if (this.props.zIndex === undefined) {
+      this.props.updateStickyZIndex(
+        this.placeholderRef,
+        isSticky,
+        this.handleZIndexChange,
+      );
+    }
+
+    if (process.env.NODE_ENV !== 'production' && hasDebugListeners()) {
+      const scrollContainer = this.props.scrollContainer?.current;
+      publishDebugInfo(this.placeholderRef, {
+        name: 'StickyCollapse',
+        edge: 'top',
+        origin: scrollContainer
+          ? getScrollContainerOrigin(scrollContainer)
+          : null,
+        stickyRect,
+        placeholderRect,
+        scroll,
+        dimensions,
+        offsetTop,
+        stickyOffset,
+        overflowScroll: 'end',
+        appliedOverflowScroll: 'end',
+        state: { isSticky, isCollapsed: collapseProgress === 1 },
+        styles: positionStyles,
+      });
+    }
+
+    if (process.env.NODE_ENV !== 'production' && !this.hasDiagnosedSetup) {
+      this.hasDiagnosedSetup = true;
+      warnStickySetup({
+        name: 'StickyCollapse',
+        placeholder: this.placeholderRef.current,
+        scrollContainer: this.props.scrollContainer?.current,
+        hasProvider: this.props.hasProvider,
+        usesFixedPosition:
+          this.props.positioning !== 'transform' && !this.props.scrollContainer,
+      });
+    }
+
+    const nextHeight = isSticky ? height : undefined;
+    if (
+      shallowEqualPositionStyles(positionStyles, this.state.styles) &&
+      this.state.isNearToViewport === isNearToViewport &&
+      this.state.isSticky === isSticky &&
+      this.state.collapseProgress === collapseProgress &&
+      this.state.height === nextHeight
+    ) {
+      return;
+    }
+
+    this.setState({
+      styles: positionStyles,
+      isNearToViewport,
+      isSticky,
+      collapseProgress,
+      height: nextHeight,
+    });
+  };
+
+  handleZIndexChange = (zIndex?: number) => {
+    this.setState({ zIndex });
+  };
+
+  renderSticky = ({ isRecalculating }: { isRecalculating: boolean }) => {
+    const { disabled, children, stickyProps } = this.props;
+    const { height } = this.state;
+    const stickyStyle = (stickyProps as { style?: React.CSSProperties })?.style;
+    return (
+      <StickyElement<TRenderChildren<IRenderArgs>>
+        forwardRef={this.stickyRef}
+        positionStyle={this.state.styles}
+        zIndex={
+          this.props.zIndex !== undefined
+            ? this.props.zIndex
+            : this.state.zIndex
+        }
+        disabled={disabled || isRecalculating}
+        children={children}
+        renderArgs={{
+          collapseProgress: this.state.collapseProgress,
+          isSticky: this.state.isSticky,
+        }}
+        {...stickyProps}
+        style={
+          height !== undefined
+            ? { height, overflow: 'hidden', ...stickyStyle }
+            : stickyStyle
+        }
+      />
+    );
+  };
+
+  render() {
+    const {
+      disabled,
+      disableResizing,
+      style,
+      className,
+      scrollContainer,
+      defaultSize,
+    } = this.props;
+    // the placeholder keeps the expanded height, so that the content below
+    // does not move while the element collapses
+    const placeholderStyle =
+      this.state.height !== undefined && !disabled
+        ? { ...style, height: this.expandedHeight }
+        : style;
+    return (
+      <>
+        <StickyPlaceholder
+          className={className}
+          style={placeholderStyle!}
+          disabled={!!disabled}
+          stickyRef={this.stickyRef}
+          scrollContainer={scrollContainer}
+          disableResizing={!!disableResizing}
+          forwardRef={this.placeholderRef}
+          defaultSize={defaultSize}
+        >
+          {this.renderSticky}
+        </StickyPlaceholder>
+        {scrollContainer ? (
+          <ObserveScrollContainer
+            scrollContainer={scrollContainer}
+            disableScrollUpdates={!!disabled}
+            disableDimensionsUpdates
+            onUpdate={this.handleViewportUpdate}
+            recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
+          />
+        ) : (
+          <ObserveViewport
+            disableScrollUpdates={disabled}
+            disableDimensionsUpdates
+            onUpdate={this.handleViewportUpdate as any}
+            recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
+            priority={this.state.isNearToViewport ? 'highest' : 'low'}
+          />
+        )}
+      </>
+    );
+  }
+}
+
+export default connectStickyProvider()<IOwnProps>(StickyCollapse);
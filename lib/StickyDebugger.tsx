@@ -0,0 +1,233 @@
+import * as React from 'react';
+import { IRect } from 'react-viewport-utils';
+
+import { IStickyDebugInfo, subscribeDebugInfo } from './debug';
+import { calcHeightDifference } from './layout';
+
+interface IState {
+  entries: IStickyDebugInfo[];
+}
+
+const colors = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4'];
+
+const overlayStyle: React.CSSProperties = {
+  position: 'fixed',
+  top: 0,
+  left: 0,
+  right: 0,
+  bottom: 0,
+  pointerEvents: 'none',
+  zIndex: 2147483647,
+  font: '11px/1.4 monospace',
+};
+
+const panelStyle: React.CSSProperties = {
+  position: 'absolute',
+  right: 8,
+  bottom: 8,
+  maxHeight: '50%',
+  overflow: 'auto',
+  padding: 8,
+  background: 'rgba(255, 255, 255, 0.9)',
+  color: '#000',
+  whiteSpace: 'pre',
+  pointerEvents: 'auto',
+};
+
+const formatValue = (value: any) =>
+  typeof value === 'number' ? Math.round(value) : JSON.stringify(value);
+
+const formatValues = (values: { [name: string]: any }) =>
+  Object.keys(values)
+    .map((name) => `${name}: ${formatValue(values[name])}`)
+    .join(', ');
+
+const renderRect = (
+  rect: IRect | undefined,
+  { top, left }: { top: number; left: number },
+  style: React.CSSProperties,
+) => {
+  if (!rect) {
+    return null;
+  }
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: top + rect.top,
+        left: left + rect.left,
+        width: rect.width,
+        height: rect.height,
+        boxSizing: 'border-box',
+        ...style,
+      }}
+    />
+  );
+};
+
+const renderLine = (top: number, color: string, label: string) => (
+  <div
+    style={{
+      position: 'absolute',
+      top,
+      left: 0,
+      right: 0,
+      borderTop: `1px dotted ${color}`,
+      color,
+    }}
+  >
+    {label}
+  </div>
+);
+
+const renderVerticalLine = (left: number, color: string, label: string) => (
+  <div
+    style={{
+      position: 'absolute',
+      top: 0,
+      bottom: 0,
+      left,
+      borderLeft: `1px dotted ${color}`,
+      color,
+    }}
+  >
+    {label}
+  </div>
+);
+
+// the line the element sticks at, `offsetTop` already includes the stack above
+const renderOffsetLine = (
+  info: IStickyDebugInfo,
+  color: string,
+  label: string,
+) => {
+  const origin = info.origin || { top: 0, left: 0 };
+  const { offsetTop: offset, edge } = info;
+  if (edge === 'left' || edge === 'right') {
+    const viewportWidth = info.origin
+      ? info.dimensions.clientWidth
+      : info.dimensions.width;
+    return renderVerticalLine(
+      origin.left + (edge === 'left' ? offset : viewportWidth - offset),
+      color,
+      label,
+    );
+  }
+  const viewportHeight = info.origin
+    ? info.dimensions.clientHeight
+    : info.dimensions.height;
+  return renderLine(
+    origin.top + (edge === 'top' ? offset : viewportHeight - offset),
+    color,
+    label,
+  );
+};
+
+/**
+ * Draws the layout of every mounted sticky component on top of the page:
+ * the container (dashed), the placeholder (dotted), the sticky element (solid),
+ * the offset it sticks at and the position the scroll direction turned the last
+ * time. A panel lists the computed state and position styles. It renders
+ * nothing in production builds.
+ */
+class StickyDebugger extends React.PureComponent<{}, IState> {
+  private unsubscribe?: () => void;
+  private nextEntries?: IStickyDebugInfo[];
+  private tickId?: number;
+
+  state: IState = {
+    entries: [],
+  };
+
+  componentDidMount() {
+    if (process.env.NODE_ENV !== 'production') {
+      this.unsubscribe = subscribeDebugInfo(this.handleEntries);
+    }
+  }
+
+  componentWillUnmount() {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+    }
+    if (this.tickId !== undefined) {
+      cancelAnimationFrame(this.tickId);
+    }
+  }
+
+  // the components publish on every update, render at most once per frame
+  handleEntries = (entries: IStickyDebugInfo[]) => {
+    this.nextEntries = entries;
+    if (this.tickId === undefined) {
+      this.tickId = requestAnimationFrame(() => {
+        this.tickId = undefined;
+        this.setState({ entries: this.nextEntries! });
+      });
+    }
+  };
+
+  renderEntry(info: IStickyDebugInfo, index: number) {
+    const color = colors[index % colors.length];
+    const origin = info.origin || { top: 0, left: 0 };
+    const turnLine = origin.top + info.scroll.yTurn - info.scroll.y;
+    return (
+      <React.Fragment key={index}>
+        {renderRect(info.containerRect, origin, {
+          border: `1px dashed ${color}`,
+        })}
+        {renderRect(info.placeholderRect, origin, {
+          border: `1px dotted ${color}`,
+        })}
+        {renderRect(info.stickyRect, origin, {
+          border: `2px solid ${color}`,
+          background: `${color}22`,
+        })}
+        {renderOffsetLine(info, color, `#${index} ${info.name} offset`)}
+        {info.scroll.yTurn !== info.scroll.y &&
+          renderLine(turnLine, color, `#${index} ${info.name} turn`)}
+      </React.Fragment>
+    );
+  }
+
+  renderDetails(info: IStickyDebugInfo, index: number) {
+    const heightDiff = calcHeightDifference({
+      rectSticky: info.stickyRect,
+      dimensions: info.dimensions,
+    });
+    return (
+      <div key={index} style={{ color: colors[index % colors.length] }}>
+        {`#${index} ${info.name} (${info.edge})
+  state: ${formatValues(info.state)}
+  styles: ${formatValues(info.styles)}
+  offsetTop: ${info.offsetTop}, stickyOffset: ${formatValues(info.stickyOffset)}
+  scroll: ${formatValues({
+    y: info.scroll.y,
+    yTurn: info.scroll.yTurn,
+    isScrollingUp: info.scroll.isScrollingUp,
+  })}
+  overflowScroll: ${info.overflowScroll} -> ${
+          info.appliedOverflowScroll
+        } (exceeds viewport by ${heightDiff}px)`}
+      </div>
+    );
+  }
+
+  render() {
+    if (process.env.NODE_ENV === 'production') {
+      return null;
+    }
+    const { entries } = this.state;
+    if (entries.length === 0) {
+      return null;
+    }
+    return (
+      <div style={overlayStyle} data-sticky-debugger="">
+        {entries.map((info, index) => this.renderEntry(info, index))}
+        <div style={panelStyle}>
+          {entries.map((info, index) => this.renderDetails(info, index))}
+        </div>
+      </div>
+    );
+  }
+}
+
+export default StickyDebugger;
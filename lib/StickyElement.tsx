@@ -1,5 +1,6 @@
 import * as React from 'react';
 import { TRenderChildren, IPositionStyles } from './types';
+import { toCSSPositionStyles } from './utils';
 
 interface IProps<R> {
   disabled: boolean;
@@ -8,6 +9,7 @@ interface IProps<R> {
   forwardRef?: React.RefObject<any>;
   style?: React.CSSProperties;
   positionStyle?: IPositionStyles;
+  zIndex?: number;
 }
 
 const baseStyles: React.CSSProperties = {
@@ -26,12 +28,18 @@ const StickyElement = <R extends unknown>({
   forwardRef,
   style: overrideStyles = {},
   positionStyle = {},
+  zIndex,
   disabled,
   renderArgs,
   ...props
 }: IProps<R>) => {
   const style: React.CSSProperties = !disabled
-    ? { ...baseStyles, ...positionStyle, ...overrideStyles }
+    ? {
+      ...baseStyles,
+      ...toCSSPositionStyles(positionStyle),
+      ...(zIndex !== undefined ? { zIndex } : {}),
+      ...overrideStyles,
+    }
     : {};
 
   if (style.transform) {
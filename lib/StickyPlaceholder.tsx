@@ -7,15 +7,18 @@ import {
   cancelAnimationFrame,
 } from 'react-viewport-utils';
 import ElementResizeObserver from './ElementResizeObserver';
+import { IStickySize } from './types';
 
 interface IProps {
   disableResizing: boolean;
   disabled: boolean;
   style: React.CSSProperties | null;
   stickyRef: React.RefObject<any>;
+  scrollContainer?: React.RefObject<HTMLElement>;
   children: (props: { isRecalculating: boolean }) => React.ReactNode;
   className?: string;
   forwardRef?: React.RefObject<any>;
+  defaultSize?: IStickySize;
 }
 
 interface IState {
@@ -37,8 +40,11 @@ class StickyPlaceholder extends React.Component<IProps, IState> {
   state: IState = {
     isRecalculating: false,
     isWaitingForRecalculation: false,
-    stickyHeight: null,
-    stickyWidth: null,
+    stickyHeight: this.props.defaultSize ? this.props.defaultSize.height : null,
+    stickyWidth:
+      this.props.defaultSize && this.props.defaultSize.width !== undefined
+        ? this.props.defaultSize.width
+        : null,
     clientHash: null,
   };
 
@@ -47,13 +53,35 @@ class StickyPlaceholder extends React.Component<IProps, IState> {
     this.isUnmounted = true;
   }
 
-  calculateSize = () => {
+  // the reserved size is corrected on the first update without a recalculation,
+  // which would remove the sticky styles for a moment
+  shouldCorrectDefaultSize = () => {
+    return Boolean(this.props.defaultSize) && this.state.clientHash === null;
+  };
+
+  calculateSize = (): IRect | null => {
+    const sticky = this.props.stickyRef.current;
+    if (sticky && this.shouldCorrectDefaultSize()) {
+      const {
+        top,
+        bottom,
+        left,
+        right,
+        height,
+      } = sticky.getBoundingClientRect();
+      const placeholder = this.props.forwardRef?.current;
+      const width =
+        this.props.defaultSize!.width !== undefined || !placeholder
+          ? right - left
+          : placeholder.getBoundingClientRect().width;
+      return { top, bottom, left, right, height, width };
+    }
     if (
-      this.props.stickyRef.current &&
+      sticky &&
       !this.state.isRecalculating &&
       this.state.isWaitingForRecalculation
     ) {
-      return this.props.stickyRef.current.getBoundingClientRect();
+      return sticky.getBoundingClientRect();
     }
     return null;
   };
@@ -67,7 +95,18 @@ class StickyPlaceholder extends React.Component<IProps, IState> {
     }
     this.lastDimensions = dimensions;
     const { width, clientWidth } = dimensions;
-    const nextClientHash = [width, clientWidth].join(',');
+    const scrollContainerWidth = this.props.scrollContainer?.current
+      ?.clientWidth;
+    const nextClientHash = [width, clientWidth, scrollContainerWidth].join(',');
+
+    if (stickyRect && this.shouldCorrectDefaultSize()) {
+      this.setState({
+        clientHash: nextClientHash,
+        stickyHeight: stickyRect.height,
+        stickyWidth: stickyRect.width,
+      });
+      return;
+    }
 
     if (
       !this.state.isWaitingForRecalculation &&
@@ -120,6 +159,12 @@ class StickyPlaceholder extends React.Component<IProps, IState> {
     }
   };
 
+  handleScrollContainerResize = () => {
+    if (this.lastDimensions) {
+      this.handleDimensionsUpdate({ dimensions: this.lastDimensions }, null);
+    }
+  };
+
   render() {
     const { children, disabled, style, className, forwardRef } = this.props;
     const {
@@ -154,9 +199,15 @@ class StickyPlaceholder extends React.Component<IProps, IState> {
               priority="highest"
             />
             <ElementResizeObserver
-              stickyRef={this.props.stickyRef}
+              elementRef={this.props.stickyRef}
               onUpdate={this.handleElementResize}
             />
+            {this.props.scrollContainer && (
+              <ElementResizeObserver
+                elementRef={this.props.scrollContainer}
+                onUpdate={this.handleScrollContainerResize}
+              />
+            )}
           </>
         )}
       </>
@@ -1,24 +1,122 @@
 import * as React from 'react';
-import { ViewportProvider } from 'react-viewport-utils';
+import {
+  ViewportProvider,
+  requestAnimationFrame,
+  cancelAnimationFrame,
+} from 'react-viewport-utils';
 
-import { IStickyInjectedProps } from './types';
+import {
+  IStickyInjectedProps,
+  IStickyMediaProps,
+  IStickyOffset,
+  IStickyOffsetEntry,
+  IStickyOffsetOptions,
+  IStickyZIndexEntry,
+  IScrollToOptions,
+} from './types';
+import {
+  getScrollContainerOrigin,
+  scrollToPosition,
+  calcStackedStickyOffset,
+  calcCoveredStickyHeight,
+  isBefore,
+} from './utils';
+import ObserveMediaQuery from './ObserveMediaQuery';
 
-const StickyGroupContext = React.createContext({
-  stickyOffset: { top: 0, height: 0 },
-  updateStickyOffset: (offset: number, height: number) => {},
+interface IProps {
+  /**
+   * The reference to an element that scrolls on its own (e.g. with `overflow: auto`). All sticky components within the provider will stick relative to this element instead of the window.
+   */
+  scrollContainer?: React.RefObject<HTMLElement>;
+  /**
+   * Corrects the scroll position after the user navigates to an anchor (e.g. `#section`) so that the target is not hidden behind sticky elements. This is also the case for the anchor within the url when the page loads.
+   */
+  correctHashNavigation?: boolean;
+  /**
+   * Keeps the element that receives the keyboard focus visible (WCAG 2.4.11 Focus Not Obscured). In case it is covered by a `StickyScrollUp` or a stacked `Sticky` component, the page scrolls so that it is placed below them. Focus within a `StickyScrollUp` that is currently hidden reveals it.
+   */
+  correctFocus?: boolean;
+  /**
+   * Keeps the css property `scroll-padding-top` of the document (or the scroll container) in sync with the area covered by the sticky elements, so that anchor links and `element.scrollIntoView()` will not scroll the target behind them. The same value is also published as the css custom property `--sticky-offset-top`.
+   */
+  syncScrollPadding?: boolean;
+  /**
+   * A media query (e.g. `(min-width: 768px)`) that is used by all sticky components within the provider that do not define a `media` property on their own. The sticky behavior is only active while the query matches.
+   */
+  media?: string;
+  /**
+   * Enables the z-index management of all `Sticky` and `StickyScrollUp` components within the provider. Starting at this base value, elements that are currently sticky are placed above elements that are not and elements that come first within the document are placed above the ones that follow. The `useStickyOverlayZIndex` hook returns a z-index above all of them.
+   */
+  zIndex?: number;
+}
+
+interface IState {
+  overlayZIndex?: number;
+}
+
+interface IStickyContext extends IStickyInjectedProps {
+  media?: string;
+  overlayZIndex?: number;
+}
+
+const StickyGroupContext = React.createContext<IStickyContext>({
+  getStickyOffset: () => ({ top: 0, height: 0 }),
+  updateStickyOffset: () => {},
+  removeStickyOffset: () => {},
+  updateStickyZIndex: () => {},
+  removeStickyZIndex: () => {},
+  scrollTo: (target, { behavior, offset = 0 } = {}) => {
+    const top =
+      typeof target === 'number'
+        ? target
+        : target.getBoundingClientRect().top + window.pageYOffset;
+    scrollToPosition(null, Math.max(top - offset, 0), behavior);
+  },
 });
 
+export const useStickyContext = () => React.useContext(StickyGroupContext);
+
+/**
+ * Returns a function to scroll to an element or a y-position so that the
+ * target is not hidden behind the stacked sticky elements of the
+ * `StickyProvider`.
+ */
+export const useStickyScrollTo = () => useStickyContext().scrollTo;
+
+/**
+ * Returns a z-index above all sticky elements of the closest `StickyProvider`,
+ * e.g. for overlays and dialogs. It is only defined while the provider manages
+ * the z-index of its sticky elements.
+ */
+export const useStickyOverlayZIndex = () => useStickyContext().overlayZIndex;
+
 export const connect = () => <P extends object>(
   WrappedComponent: React.ComponentType<P & IStickyInjectedProps>,
 ) => {
-  const ConnectedComponent: React.SFC<P> = (props) => (
+  // a component is disabled while its media query does not match
+  const ConnectedComponent: React.SFC<P & IStickyMediaProps> = ({
+    media,
+    ...props
+  }) => (
     <StickyGroupContext.Consumer>
       {(context) => (
-        <WrappedComponent
-          {...props}
-          stickyOffset={context.stickyOffset}
-          updateStickyOffset={context.updateStickyOffset}
-        />
+        <ObserveMediaQuery query={media !== undefined ? media : context.media}>
+          {(matches) => (
+            <WrappedComponent
+              {...(props as P)}
+              {...(matches ? {} : { disabled: true })}
+              getStickyOffset={context.getStickyOffset}
+              updateStickyOffset={context.updateStickyOffset}
+              removeStickyOffset={context.removeStickyOffset}
+              updateStickyZIndex={context.updateStickyZIndex}
+              removeStickyZIndex={context.removeStickyZIndex}
+              scrollTo={context.scrollTo}
+              scrollContainer={context.scrollContainer}
+              hasProvider={context.hasProvider}
+              correctFocus={context.correctFocus}
+            />
+          )}
+        </ObserveMediaQuery>
       )}
     </StickyGroupContext.Consumer>
   );
@@ -30,15 +128,305 @@ export const connect = () => <P extends object>(
   return ConnectedComponent;
 };
 
-export default class StickyScrollUpProvider extends React.PureComponent {
-  stickyOffset = {
-    top: 0,
-    height: 0,
+export default class StickyScrollUpProvider extends React.PureComponent<
+  IProps,
+  IState
+> {
+  // all sticky elements at the top edge in the order of the document, stacked
+  // elements push the sticky elements that follow down
+  stickyOffsets: IStickyOffsetEntry[] = [];
+  // all sticky elements with a managed z-index in the order of the document
+  stickyZIndexes: IStickyZIndexEntry[] = [];
+  private hashTick?: number;
+  private isInitialHashPending = false;
+  private focusTick?: number;
+  private scrollPadding: number | null = null;
+
+  updateStickyOffset = (
+    ref: React.RefObject<HTMLElement>,
+    offset: number,
+    height: number,
+    {
+      stacked = true,
+      stickyHeight = height,
+      container,
+    }: IStickyOffsetOptions = {},
+  ) => {
+    const entry = this.stickyOffsets.find((e) => e.ref === ref);
+    if (entry) {
+      entry.offset = offset;
+      entry.height = height;
+      entry.stacked = stacked;
+      entry.stickyHeight = stickyHeight;
+      entry.container = container;
+    } else {
+      this.stickyOffsets.push({
+        ref,
+        offset,
+        height,
+        stacked,
+        stickyHeight,
+        container,
+      });
+      this.stickyOffsets.sort((a, b) =>
+        isBefore(a.ref.current, b.ref.current) ? -1 : 1,
+      );
+      if (this.isInitialHashPending) {
+        // all sticky elements register within the same frame
+        cancelAnimationFrame(this.hashTick!);
+        this.hashTick = requestAnimationFrame(this.handleHashChange);
+      }
+    }
+    this.updateScrollPadding();
+  };
+
+  removeStickyOffset = (ref: React.RefObject<HTMLElement>) => {
+    this.stickyOffsets = this.stickyOffsets.filter((e) => e.ref !== ref);
+    this.updateScrollPadding();
+  };
+
+  updateStickyZIndex = (
+    ref: React.RefObject<HTMLElement>,
+    isSticky: boolean,
+    onChange: (zIndex?: number) => void,
+  ) => {
+    if (this.props.zIndex === undefined) {
+      return;
+    }
+    const entry = this.stickyZIndexes.find((e) => e.ref === ref);
+    if (entry) {
+      if (entry.isSticky === isSticky) {
+        return;
+      }
+      entry.isSticky = isSticky;
+    } else {
+      this.stickyZIndexes.push({ ref, isSticky, onChange });
+      this.stickyZIndexes.sort((a, b) =>
+        isBefore(a.ref.current, b.ref.current) ? -1 : 1,
+      );
+    }
+    this.updateZIndexes();
+  };
+
+  removeStickyZIndex = (ref: React.RefObject<HTMLElement>) => {
+    const count = this.stickyZIndexes.length;
+    this.stickyZIndexes = this.stickyZIndexes.filter((e) => e.ref !== ref);
+    if (this.stickyZIndexes.length !== count) {
+      this.updateZIndexes();
+    }
+  };
+
+  updateZIndexes() {
+    const base = this.props.zIndex;
+    if (base === undefined) {
+      return;
+    }
+    // sticky elements use the upper half of the range
+    const count = this.stickyZIndexes.length;
+    this.stickyZIndexes.forEach((entry, index) => {
+      const zIndex = base + (entry.isSticky ? count : 0) + count - 1 - index;
+      if (entry.zIndex !== zIndex) {
+        entry.zIndex = zIndex;
+        entry.onChange(zIndex);
+      }
+    });
+    const overlayZIndex = base + 2 * count;
+    if (this.state.overlayZIndex !== overlayZIndex) {
+      this.setState({ overlayZIndex });
+    }
+  }
+
+  get scrollPaddingElement() {
+    return this.props.scrollContainer
+      ? this.props.scrollContainer.current
+      : document.documentElement;
+  }
+
+  updateScrollPadding() {
+    const element = this.scrollPaddingElement;
+    if (!this.props.syncScrollPadding || !element) {
+      return;
+    }
+    // anchors further down the page are also covered by the elements that
+    // are not sticky yet
+    const scrollPadding = Math.max(
+      this.getCoveredHeight(),
+      calcCoveredStickyHeight(this.stickyOffsets),
+    );
+    if (scrollPadding === this.scrollPadding) {
+      return;
+    }
+    this.scrollPadding = scrollPadding;
+    element.style.setProperty('scroll-padding-top', `${scrollPadding}px`);
+    element.style.setProperty('--sticky-offset-top', `${scrollPadding}px`);
+  }
+
+  // the area at the top that is currently covered by sticky elements
+  getCoveredHeight() {
+    return this.stickyOffsets.reduce(
+      (height, entry) => Math.max(height, Math.min(entry.offset, entry.height)),
+      0,
+    );
+  }
+
+  removeScrollPadding() {
+    const element = this.scrollPaddingElement;
+    if (this.scrollPadding === null || !element) {
+      return;
+    }
+    this.scrollPadding = null;
+    element.style.removeProperty('scroll-padding-top');
+    element.style.removeProperty('--sticky-offset-top');
+  }
+
+  getStickyOffset = (ref: React.RefObject<HTMLElement>): IStickyOffset => {
+    return calcStackedStickyOffset(this.stickyOffsets, ref);
+  };
+
+  componentDidMount() {
+    if (this.props.correctHashNavigation) {
+      window.addEventListener('hashchange', this.handleHashChange, false);
+      // the browser already scrolled to the anchor of the url, the sticky
+      // elements register their offsets with their first layout which might
+      // take several frames, so the anchor is corrected again once they do
+      this.isInitialHashPending = true;
+      this.hashTick = requestAnimationFrame(this.handleHashChange);
+    }
+    if (this.props.correctFocus) {
+      document.addEventListener('focusin', this.handleFocusIn, false);
+    }
+  }
+
+  state: IState = {
+    overlayZIndex: this.props.zIndex,
   };
 
-  updateStickyOffset = (stickyOffset: number, height: number) => {
-    this.stickyOffset.top = Math.min(stickyOffset, height);
-    this.stickyOffset.height = height;
+  componentDidUpdate(prevProps: IProps) {
+    if (prevProps.zIndex !== this.props.zIndex) {
+      if (this.props.zIndex === undefined) {
+        this.stickyZIndexes.forEach((entry) => entry.onChange(undefined));
+        this.stickyZIndexes = [];
+        this.setState({ overlayZIndex: undefined });
+      } else {
+        this.stickyZIndexes.forEach((entry) => (entry.zIndex = undefined));
+        this.updateZIndexes();
+      }
+    }
+    if (prevProps.syncScrollPadding !== this.props.syncScrollPadding) {
+      if (this.props.syncScrollPadding) {
+        this.updateScrollPadding();
+      } else {
+        this.removeScrollPadding();
+      }
+    }
+    if (prevProps.correctHashNavigation !== this.props.correctHashNavigation) {
+      if (this.props.correctHashNavigation) {
+        window.addEventListener('hashchange', this.handleHashChange, false);
+      } else {
+        window.removeEventListener('hashchange', this.handleHashChange, false);
+        this.isInitialHashPending = false;
+        cancelAnimationFrame(this.hashTick!);
+        this.hashTick = undefined;
+      }
+    }
+    if (prevProps.correctFocus !== this.props.correctFocus) {
+      if (this.props.correctFocus) {
+        document.addEventListener('focusin', this.handleFocusIn, false);
+      } else {
+        document.removeEventListener('focusin', this.handleFocusIn, false);
+      }
+    }
+  }
+
+  componentWillUnmount() {
+    this.removeScrollPadding();
+    if (this.props.correctHashNavigation) {
+      window.removeEventListener('hashchange', this.handleHashChange, false);
+    }
+    if (this.hashTick !== undefined) {
+      cancelAnimationFrame(this.hashTick);
+    }
+    if (this.props.correctFocus) {
+      document.removeEventListener('focusin', this.handleFocusIn, false);
+    }
+    if (this.focusTick !== undefined) {
+      cancelAnimationFrame(this.focusTick);
+    }
+  }
+
+  handleHashChange = () => {
+    this.hashTick = undefined;
+    if (this.stickyOffsets.length !== 0) {
+      this.isInitialHashPending = false;
+    }
+    const id = decodeURIComponent(window.location.hash.slice(1));
+    const target = id ? document.getElementById(id) : null;
+    if (target) {
+      this.scrollTo(target);
+    }
+  };
+
+  handleFocusIn = (event: FocusEvent) => {
+    const target = event.target as HTMLElement;
+    const scrollContainer = this.props.scrollContainer?.current;
+    if (
+      !target ||
+      !target.getBoundingClientRect ||
+      (scrollContainer && !scrollContainer.contains(target)) ||
+      // sticky elements never cover their own content
+      this.stickyOffsets.some((entry) => entry.ref.current?.contains(target))
+    ) {
+      return;
+    }
+    // the browser scrolls the element into view first, the sticky elements
+    // will have their position after the next frame
+    cancelAnimationFrame(this.focusTick!);
+    this.focusTick = requestAnimationFrame(() => {
+      this.focusTick = undefined;
+      if (document.activeElement !== target) {
+        return;
+      }
+      const originTop = scrollContainer
+        ? getScrollContainerOrigin(scrollContainer).top
+        : 0;
+      const top = target.getBoundingClientRect().top - originTop;
+      if (top < this.getCoveredHeight()) {
+        this.scrollTo(target);
+      }
+    });
+  };
+
+  scrollTo = (
+    target: HTMLElement | number,
+    { behavior, offset = 0 }: IScrollToOptions = {},
+  ) => {
+    const scrollContainer = this.props.scrollContainer?.current;
+    const originTop = scrollContainer
+      ? getScrollContainerOrigin(scrollContainer).top
+      : 0;
+    const scrollY = scrollContainer
+      ? scrollContainer.scrollTop
+      : window.pageYOffset;
+    const getScrollTop = (element: HTMLElement) =>
+      element.getBoundingClientRect().top - originTop + scrollY;
+    const getScrollBottom = (element: HTMLElement) =>
+      element.getBoundingClientRect().bottom - originTop + scrollY;
+    const top = typeof target === 'number' ? target : getScrollTop(target);
+    // all sticky elements before the target will cover it, including the ones
+    // that are not sticky yet, unless their container ends before the target
+    const stickyHeight = calcCoveredStickyHeight(
+      this.stickyOffsets.filter(
+        ({ ref, container }) =>
+          ref.current &&
+          getScrollTop(ref.current) < top &&
+          (!container?.current || getScrollBottom(container.current) > top),
+      ),
+    );
+    scrollToPosition(
+      scrollContainer,
+      Math.max(Math.round(top - stickyHeight - offset), 0),
+      behavior,
+    );
   };
 
   render() {
@@ -46,8 +434,17 @@ export default class StickyScrollUpProvider extends React.PureComponent {
       <ViewportProvider experimentalSchedulerEnabled>
         <StickyGroupContext.Provider
           value={{
+            getStickyOffset: this.getStickyOffset,
             updateStickyOffset: this.updateStickyOffset,
-            stickyOffset: this.stickyOffset,
+            removeStickyOffset: this.removeStickyOffset,
+            updateStickyZIndex: this.updateStickyZIndex,
+            removeStickyZIndex: this.removeStickyZIndex,
+            scrollTo: this.scrollTo,
+            scrollContainer: this.props.scrollContainer,
+            hasProvider: true,
+            correctFocus: this.props.correctFocus,
+            media: this.props.media,
+            overlayZIndex: this.state.overlayZIndex,
           }}
         >
           {this.props.children}
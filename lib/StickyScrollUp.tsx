@@ -1,16 +1,39 @@
 import * as React from 'react';
-import { ObserveViewport, IRect, IScroll } from 'react-viewport-utils';
+import {
+  ObserveViewport,
+  IRect,
+  IScroll,
+  IDimensions,
+} from 'react-viewport-utils';
 
 import { connect as connectStickyProvider } from './StickyProvider';
 import StickyElement from './StickyElement';
 import StickyPlaceholder from './StickyPlaceholder';
+import ObserveScrollContainer from './ObserveScrollContainer';
 import {
   TRenderChildren,
   IStickyComponentProps,
   IStickyInjectedProps,
   IPositionStyles,
+  TScrollTolerance,
+  ICSSVariables,
+  TPositioning,
 } from './types';
-import { supportsWillChange, shallowEqualPositionStyles } from './utils';
+import {
+  shallowEqualPositionStyles,
+  getScrollContainerOrigin,
+  toScrollContainerRect,
+  toAlignedPositionStyles,
+  toScrollContainerPositionStyles,
+  toTransformPositionStyles,
+  resolveScrollTolerance,
+  updateCSSVariables,
+  removeCSSVariables,
+  createStickyCSSVariables,
+} from './utils';
+import { calcScrollUpLayout } from './layout';
+import { hasDebugListeners, publishDebugInfo, removeDebugInfo } from './debug';
+import { warnStickySetup } from './diagnostics';
 
 interface IOwnProps extends IStickyComponentProps {
   /**
@@ -25,6 +48,18 @@ interface IOwnProps extends IStickyComponentProps {
    * @deprecated If not set, the start position is now calculated by default as it was already the case for the `Sticky` component. As there is no use case for this property anymore it will be removed in the future.
    */
   defaultOffsetTop?: number;
+  /**
+   * The distance in pixels the user has to scroll up before the component starts to reveal, and to scroll down before it starts to hide again. This prevents flickering on trackpads and touch devices when the scroll direction changes slightly. Different values for scrolling up and down can be set as an object (`{ up: 30, down: 10 }`) and those can be defined per pointer type as well (`{ mouse: 0, touch: { up: 50 } }`).
+   */
+  tolerance?: TScrollTolerance;
+  /**
+   * Is called whenever the component becomes sticky or stops being sticky, e.g. to track analytics events or to toggle other elements.
+   */
+  onStickyChange?: (isSticky: boolean) => void;
+  /**
+   * Is called whenever the component gets near to the viewport or leaves it.
+   */
+  onNearToViewportChange?: (isNearToViewport: boolean) => void;
 }
 
 interface IProps extends IOwnProps, IStickyInjectedProps { }
@@ -33,80 +68,26 @@ interface IState {
   styles: IPositionStyles;
   isNearToViewport: boolean;
   isSticky: boolean;
+  zIndex?: number;
 }
 
-const calcPositionStyles = (
-  rect: IRect,
-  scroll: IScroll,
-  { offsetTop = 0 },
-): IPositionStyles => {
-  const rectTop = Math.round(rect.top);
-  const scrollY = Math.round(scroll.y);
-  if (scroll.isScrollingDown) {
-    // disable sticky mode above the top offset while scrolling down
-    if (rectTop > 0 && scrollY < offsetTop) {
-      return {
-        position: 'absolute',
-        top: 0,
-      };
-    }
-
-    // element is visible and scrolls down
-    return {
-      position: 'absolute',
-      top: Math.max(scrollY - offsetTop + rectTop, 0),
-    };
-  }
-
-  const isTopVisible = rectTop >= 0;
-  const isBottomVisible = rectTop + rect.height <= 0;
-  // element is visible and scrolls up
-  if (!isTopVisible && !isBottomVisible) {
-    return {
-      position: 'absolute',
-      top: scrollY - offsetTop + rectTop,
-    };
-  }
-
-  // disable sticky mode above the top offset while scrolling up
-  if (scrollY <= offsetTop) {
-    return {
-      position: 'absolute',
-      top: 0,
-    };
-  }
-
-  if (Math.round(scroll.yDTurn) === 0) {
-    // scroll direction changed from down to up and the element was not visible
-    if (isBottomVisible) {
-      return {
-        position: 'absolute',
-        top: Math.round(scroll.yTurn) - offsetTop - rect.height,
-      };
-    }
-    // scroll direction changed from down to up and the element was fully visible
-    return {
-      position: 'absolute',
-      top: Math.max(scrollY - offsetTop, 0),
-    };
-  }
-
-  // set sticky
-  return {
-    position: 'fixed',
-    top: 0,
-  };
-};
+const revealedStyles: IPositionStyles = { position: 'fixed', top: 0 };
 
 class StickyScrollUp extends React.PureComponent<IProps, IState> {
   private stickyRef: React.RefObject<any> = React.createRef();
   private placeholderRef: React.RefObject<any> = React.createRef();
   private stickyOffset: number | null = null;
   private stickyOffsetHeight: number = 0;
+  private cssVariables: ICSSVariables = {};
+  private hasDiagnosedSetup: boolean = false;
+  private lastViewport?: { scroll: IScroll; dimensions: IDimensions };
+  // keeps the element visible while it contains the keyboard focus
+  private isRevealed: boolean = false;
 
   static defaultProps = {
     disableHardwareAcceleration: false,
     disableResizing: false,
+    positioning: 'position' as TPositioning,
     style: {},
   };
 
@@ -117,54 +98,108 @@ class StickyScrollUp extends React.PureComponent<IProps, IState> {
   };
 
   componentDidUpdate(prevProps: IProps, prevState: IState) {
+    if (this.props.disabled && !prevProps.disabled) {
+      if (process.env.NODE_ENV !== 'production') {
+        removeDebugInfo(this.placeholderRef);
+      }
+      // e.g. the media query stopped matching
+      this.setState({ isSticky: false, styles: {} });
+    }
+    const { onStickyChange, onNearToViewportChange } = this.props;
+    if (onStickyChange && prevState.isSticky !== this.state.isSticky) {
+      onStickyChange(this.state.isSticky);
+    }
     if (
-      this.props.updateStickyOffset &&
-      prevProps.disabled !== this.props.disabled
+      onNearToViewportChange &&
+      prevState.isNearToViewport !== this.state.isNearToViewport
     ) {
-      this.props.updateStickyOffset(
-        this.props.disabled ? 0 : this.stickyOffset!,
-        this.stickyOffsetHeight,
+      onNearToViewportChange(this.state.isNearToViewport);
+    }
+    if (this.props.disabled && !prevProps.disabled) {
+      // the offset is registered again with the first update once enabled
+      this.stickyOffset = null;
+      this.stickyOffsetHeight = 0;
+      this.props.removeStickyOffset(this.placeholderRef);
+    }
+    if (
+      (this.props.disabled && !prevProps.disabled) ||
+      (this.props.zIndex !== undefined && prevProps.zIndex === undefined)
+    ) {
+      this.props.removeStickyZIndex(this.placeholderRef);
+    }
+    if (
+      (this.props.disabled && !prevProps.disabled) ||
+      (!this.props.cssVariables && prevProps.cssVariables)
+    ) {
+      this.cssVariables = removeCSSVariables(
+        [this.placeholderRef.current, this.stickyRef.current],
+        this.cssVariables,
       );
     }
   }
 
-  isNearToViewport = (rect: IRect): boolean => {
-    const padding = 700;
-    return rect.top - padding < 0;
-  };
-
-  getStickyStyles(stickyRect: IRect, placeholderRect: IRect, scroll: IScroll) {
-    const offsetTop = isNaN(this.props.defaultOffsetTop!)
-      ? Math.round(placeholderRect.top) + Math.round(scroll.y)
-      : this.props.defaultOffsetTop;
-    const styles = calcPositionStyles(stickyRect, scroll, {
-      offsetTop,
-    });
+  componentDidMount() {
+    const placeholder = this.placeholderRef.current;
+    placeholder.addEventListener('focusin', this.handleFocusIn, false);
+    placeholder.addEventListener('focusout', this.handleFocusOut, false);
+  }
 
-    if (!this.props.disableHardwareAcceleration) {
-      const shouldAccelerate = this.isNearToViewport(stickyRect);
-      if (supportsWillChange) {
-        styles.willChange = shouldAccelerate ? 'position, top' : undefined;
-      } else {
-        styles.transform = shouldAccelerate ? `translateZ(0)` : undefined;
-      }
+  componentWillUnmount() {
+    const placeholder = this.placeholderRef.current;
+    if (placeholder) {
+      placeholder.removeEventListener('focusin', this.handleFocusIn, false);
+      placeholder.removeEventListener('focusout', this.handleFocusOut, false);
+    }
+    this.props.removeStickyOffset(this.placeholderRef);
+    this.props.removeStickyZIndex(this.placeholderRef);
+    if (process.env.NODE_ENV !== 'production') {
+      removeDebugInfo(this.placeholderRef);
     }
-
-    return styles;
   }
 
   recalculateLayoutBeforeUpdate = (): {
     stickyRect: IRect;
     placeholderRect: IRect;
   } => {
+    const scrollContainer = this.props.scrollContainer?.current;
+    // within a scroll container all rects are relative to its visible area
+    const origin = scrollContainer
+      ? getScrollContainerOrigin(scrollContainer)
+      : null;
     return {
-      placeholderRect: this.placeholderRef.current.getBoundingClientRect(),
-      stickyRect: this.stickyRef.current.getBoundingClientRect(),
+      placeholderRect: toScrollContainerRect(
+        this.placeholderRef.current.getBoundingClientRect(),
+        origin,
+      )!,
+      stickyRect: toScrollContainerRect(
+        this.stickyRef.current.getBoundingClientRect(),
+        origin,
+      )!,
     };
   };
 
+  handleFocusIn = () => {
+    if (!this.props.correctFocus || this.props.disabled || !this.lastViewport) {
+      return;
+    }
+    const layout = this.recalculateLayoutBeforeUpdate();
+    // the element is hidden above the viewport, at least partially
+    if (Math.round(layout.stickyRect.top) < 0) {
+      this.isRevealed = true;
+      this.handleViewportUpdate(this.lastViewport, layout);
+    }
+  };
+
+  handleFocusOut = (event: FocusEvent) => {
+    const placeholder = this.placeholderRef.current;
+    if (!placeholder || !placeholder.contains(event.relatedTarget as Node)) {
+      // the element scrolls out on its own with the next scroll update
+      this.isRevealed = false;
+    }
+  };
+
   handleViewportUpdate = (
-    { scroll }: { scroll: IScroll },
+    { scroll, dimensions }: { scroll: IScroll; dimensions: IDimensions },
     {
       stickyRect,
       placeholderRect,
@@ -173,30 +208,120 @@ class StickyScrollUp extends React.PureComponent<IProps, IState> {
     if (this.props.disabled) {
       return;
     }
-    // in case children is not a function renderArgs will never be used
-    const willRenderAsAFunction = typeof this.props.children === 'function';
+    this.lastViewport = { scroll, dimensions };
+    // in case children is not a function renderArgs will never be used,
+    // except that the state is required to notify about changes
+    const shouldCalculateState =
+      typeof this.props.children === 'function' ||
+      Boolean(this.props.onStickyChange || this.props.cssVariables);
 
     const nextOffset = Math.max(Math.round(stickyRect.bottom), 0);
     const nextOffsetHeight = stickyRect.height;
     const offsetDidChange = this.stickyOffset !== nextOffset;
     const offsetHeightDidChange = this.stickyOffsetHeight !== nextOffsetHeight;
 
-    const styles = this.getStickyStyles(stickyRect, placeholderRect, scroll);
+    const scrollUpLayout = calcScrollUpLayout({
+      stickyRect,
+      placeholderRect,
+      scroll,
+      defaultOffsetTop: this.props.defaultOffsetTop,
+      disableHardwareAcceleration: this.props.disableHardwareAcceleration,
+      tolerance: resolveScrollTolerance(this.props.tolerance),
+    });
+    const { isNearToViewport } = scrollUpLayout;
+    const { styles, isSticky: isFixed } = this.isRevealed
+      ? { styles: revealedStyles, isSticky: true }
+      : scrollUpLayout;
+    const alignedStyles = toAlignedPositionStyles(
+      styles,
+      'top',
+      placeholderRect,
+    );
+    let positionStyles = this.props.scrollContainer
+      ? toScrollContainerPositionStyles(
+          alignedStyles,
+          placeholderRect,
+          dimensions,
+        )
+      : alignedStyles;
+    if (this.props.positioning === 'transform') {
+      positionStyles = toTransformPositionStyles(
+        positionStyles,
+        placeholderRect,
+        dimensions,
+      );
+    }
     const stateStyles = this.state.styles;
-    const stylesDidChange = !shallowEqualPositionStyles(styles, stateStyles);
-    const isNearToViewport = this.isNearToViewport(stickyRect);
-    const isSticky = willRenderAsAFunction
-      ? styles.top === 0 && styles.position === 'fixed'
-      : false;
+    const stylesDidChange = !shallowEqualPositionStyles(
+      positionStyles,
+      stateStyles,
+    );
+    const isSticky = shouldCalculateState ? isFixed : false;
     const isNearToViewportDidChange =
       this.state.isNearToViewport !== isNearToViewport;
     const isStickyDidChange = this.state.isSticky !== isSticky;
 
-    if (
-      this.props.updateStickyOffset &&
-      (offsetDidChange || offsetHeightDidChange)
-    ) {
-      this.props.updateStickyOffset(nextOffset, nextOffsetHeight);
+    if (offsetDidChange || offsetHeightDidChange) {
+      this.stickyOffset = nextOffset;
+      this.stickyOffsetHeight = nextOffsetHeight;
+      this.props.updateStickyOffset(
+        this.placeholderRef,
+        nextOffset,
+        nextOffsetHeight,
+      );
+    }
+
+    if (this.props.cssVariables) {
+      this.cssVariables = updateCSSVariables(
+        [this.placeholderRef.current, this.stickyRef.current],
+        createStickyCSSVariables({
+          offset: 0,
+          height: stickyRect.height,
+          isSticky,
+        }),
+        this.cssVariables,
+      );
+    }
+
+    if (process.env.NODE_ENV !== 'production' && hasDebugListeners()) {
+      const scrollContainer = this.props.scrollContainer?.current;
+      publishDebugInfo(this.placeholderRef, {
+        name: 'StickyScrollUp',
+        edge: 'top',
+        origin: scrollContainer
+          ? getScrollContainerOrigin(scrollContainer)
+          : null,
+        stickyRect,
+        placeholderRect,
+        scroll,
+        dimensions,
+        offsetTop: 0,
+        stickyOffset: { top: 0, height: 0 },
+        overflowScroll: 'end',
+        appliedOverflowScroll: 'end',
+        state: { isSticky: isFixed, isNearToViewport },
+        styles: positionStyles,
+      });
+    }
+
+    if (this.props.zIndex === undefined) {
+      this.props.updateStickyZIndex(
+        this.placeholderRef,
+        isFixed,
+        this.handleZIndexChange,
+      );
+    }
+
+    if (process.env.NODE_ENV !== 'production' && !this.hasDiagnosedSetup) {
+      this.hasDiagnosedSetup = true;
+      warnStickySetup({
+        name: 'StickyScrollUp',
+        placeholder: this.placeholderRef.current,
+        scrollContainer: this.props.scrollContainer?.current,
+        hasProvider: this.props.hasProvider,
+        usesFixedPosition:
+          this.props.positioning !== 'transform' && !this.props.scrollContainer,
+      });
     }
 
     if (!stylesDidChange && !isNearToViewportDidChange && !isStickyDidChange) {
@@ -204,12 +329,16 @@ class StickyScrollUp extends React.PureComponent<IProps, IState> {
     }
 
     this.setState({
-      styles: stylesDidChange ? styles : stateStyles,
+      styles: stylesDidChange ? positionStyles : stateStyles,
       isNearToViewport,
       isSticky,
     });
   };
 
+  handleZIndexChange = (zIndex?: number) => {
+    this.setState({ zIndex });
+  };
+
   renderSticky = ({ isRecalculating }: { isRecalculating: boolean }) => {
     const { disabled, children, stickyProps } = this.props;
     return (
@@ -221,6 +350,11 @@ class StickyScrollUp extends React.PureComponent<IProps, IState> {
       >
         forwardRef={this.stickyRef}
         positionStyle={this.state.styles}
+        zIndex={
+          this.props.zIndex !== undefined
+            ? this.props.zIndex
+            : this.state.zIndex
+        }
         disabled={disabled || isRecalculating}
         children={children}
         renderArgs={{
@@ -233,7 +367,14 @@ class StickyScrollUp extends React.PureComponent<IProps, IState> {
   };
 
   render() {
-    const { disabled, disableResizing, style, className } = this.props;
+    const {
+      disabled,
+      disableResizing,
+      style,
+      className,
+      scrollContainer,
+      defaultSize,
+    } = this.props;
     return (
       <>
         <StickyPlaceholder
@@ -241,18 +382,30 @@ class StickyScrollUp extends React.PureComponent<IProps, IState> {
           style={style}
           disabled={!!disabled}
           stickyRef={this.stickyRef}
+          scrollContainer={scrollContainer}
           disableResizing={!!disableResizing}
           forwardRef={this.placeholderRef}
+          defaultSize={defaultSize}
         >
           {this.renderSticky}
         </StickyPlaceholder>
-        <ObserveViewport
-          disableScrollUpdates={disabled}
-          disableDimensionsUpdates
-          onUpdate={this.handleViewportUpdate as any}
-          recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
-          priority={this.state.isNearToViewport ? 'highest' : 'low'}
-        />
+        {scrollContainer ? (
+          <ObserveScrollContainer
+            scrollContainer={scrollContainer}
+            disableScrollUpdates={!!disabled}
+            disableDimensionsUpdates
+            onUpdate={this.handleViewportUpdate}
+            recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
+          />
+        ) : (
+          <ObserveViewport
+            disableScrollUpdates={disabled}
+            disableDimensionsUpdates
+            onUpdate={this.handleViewportUpdate as any}
+            recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
+            priority={this.state.isNearToViewport ? 'highest' : 'low'}
+          />
+        )}
       </>
     );
   }
@@ -0,0 +1,146 @@
+import * as React from 'react';
+
+import StickyElement from './StickyElement';
+import {
+  SectionListContext,
+  ISection,
+  ISectionHeaderState,
+} from './StickySectionList';
+import { TRenderChildren } from './types';
+import { shallowEqualPositionStyles } from './utils';
+
+interface IRenderArgs {
+  isSticky: boolean;
+  isActive: boolean;
+}
+
+interface IOwnProps {
+  /**
+   * The header of the section that sticks to the top of the viewport until the header of the next section pushes it out. When rendered as a function it will add further information the the function which can be used e.g. to update stylings.
+   */
+  header: TRenderChildren<IRenderArgs>;
+  /**
+   * The content of the section.
+   */
+  children?: React.ReactNode;
+  /**
+   * The id is passed directly to the section element and is used to identify the active section within `onActiveSectionChange` of the `StickySectionList`.
+   */
+  id?: string;
+  /**
+   * The class name is passed directly to the section element.
+   */
+  className?: string;
+  /**
+   * Will be merged with generated styles of the section element.
+   */
+  style?: React.CSSProperties;
+  /**
+   * All properties within this object are spread directly into the sticky header element. This e.g. allows to add css styles by `className` or `style`.
+   */
+  headerProps?: {};
+}
+
+interface IProps extends IOwnProps {
+  registerSection: (section: ISection) => void;
+  unregisterSection: (section: ISection) => void;
+}
+
+const initialState: ISectionHeaderState = {
+  styles: {},
+  width: null,
+  height: null,
+  isSticky: false,
+  isActive: false,
+};
+
+class StickySection extends React.PureComponent<IProps, ISectionHeaderState> {
+  private section: ISection = {
+    id: this.props.id,
+    sectionRef: React.createRef(),
+    placeholderRef: React.createRef(),
+    headerRef: React.createRef(),
+    update: (state) => this.update(state),
+  };
+
+  state: ISectionHeaderState = initialState;
+
+  componentDidMount() {
+    this.props.registerSection(this.section);
+  }
+
+  componentDidUpdate() {
+    this.section.id = this.props.id;
+  }
+
+  componentWillUnmount() {
+    this.props.unregisterSection(this.section);
+  }
+
+  update(state: ISectionHeaderState) {
+    if (
+      shallowEqualPositionStyles(state.styles, this.state.styles) &&
+      state.width === this.state.width &&
+      state.height === this.state.height &&
+      state.isSticky === this.state.isSticky &&
+      state.isActive === this.state.isActive
+    ) {
+      return;
+    }
+    this.setState(state);
+  }
+
+  render() {
+    const { header, children, id, className, style, headerProps } = this.props;
+    const { styles, width, height, isSticky, isActive } = this.state;
+    const isMeasured = height !== null;
+    return (
+      <div
+        ref={this.section.sectionRef as React.RefObject<HTMLDivElement>}
+        id={id}
+        className={className}
+        style={{ position: 'relative', ...style }}
+      >
+        <div
+          ref={this.section.placeholderRef as React.RefObject<HTMLDivElement>}
+          style={
+            isMeasured ? { position: 'relative', height: height! } : undefined
+          }
+        >
+          <StickyElement<TRenderChildren<IRenderArgs>>
+            forwardRef={this.section.headerRef}
+            positionStyle={
+              isMeasured && width !== null ? { ...styles, width } : {}
+            }
+            disabled={!isMeasured}
+            children={header}
+            renderArgs={{ isSticky, isActive }}
+            {...headerProps}
+          />
+        </div>
+        {children}
+      </div>
+    );
+  }
+}
+
+const ConnectedStickySection: React.SFC<IOwnProps> = (props) => (
+  <SectionListContext.Consumer>
+    {(context) => {
+      if (!context) {
+        throw new Error(
+          'react-stickup: a `StickySection` must be rendered within a `StickySectionList`.',
+        );
+      }
+      return (
+        <StickySection
+          {...props}
+          registerSection={context.registerSection}
+          unregisterSection={context.unregisterSection}
+        />
+      );
+    }}
+  </SectionListContext.Consumer>
+);
+
+export default ConnectedStickySection;
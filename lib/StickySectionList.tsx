@@ -0,0 +1,284 @@
+import * as React from 'react';
+import {
+  ObserveViewport,
+  requestAnimationFrame,
+  cancelAnimationFrame,
+  IRect,
+  IScroll,
+  IDimensions,
+} from 'react-viewport-utils';
+
+import { connect as connectStickyProvider } from './StickyProvider';
+import ObserveScrollContainer from './ObserveScrollContainer';
+import { IStickyInjectedProps, IPositionStyles } from './types';
+import {
+  getScrollContainerOrigin,
+  toScrollContainerRect,
+  toAlignedPositionStyles,
+  toScrollContainerPositionStyles,
+} from './utils';
+import {
+  calcSectionHeaderLayout,
+  applyHardwareAcceleration,
+  isNearToViewport,
+} from './layout';
+
+export interface ISectionHeaderState {
+  styles: IPositionStyles;
+  width: number | null;
+  height: number | null;
+  isSticky: boolean;
+  isActive: boolean;
+}
+
+export interface ISection {
+  id?: string;
+  sectionRef: React.RefObject<HTMLElement>;
+  placeholderRef: React.RefObject<HTMLElement>;
+  headerRef: React.RefObject<HTMLElement>;
+  update: (state: ISectionHeaderState) => void;
+}
+
+interface ISectionListContext {
+  registerSection: (section: ISection) => void;
+  unregisterSection: (section: ISection) => void;
+}
+
+export const SectionListContext = React.createContext<ISectionListContext | null>(
+  null,
+);
+
+interface IOwnProps {
+  /**
+   * The sections of the list, all `StickySection` components within it are managed as one group.
+   */
+  children: React.ReactNode;
+  /**
+   * A top offset to create a padding between the browser window and the section headers when sticky.
+   */
+  defaultOffsetTop?: number;
+  /**
+   * Is called whenever the section at the top of the viewport changes with the `id` of the section, or `null` if no section is at the top of the viewport.
+   */
+  onActiveSectionChange?: (id: string | null) => void;
+  /**
+   * Allows to disable all sticky behavior of the section headers.
+   */
+  disabled?: boolean;
+  /**
+   * By default css styles for hardware acceleration (`will-change` if supported, otherwise falls back to `transform`) are activated. This allows to turn it off.
+   */
+  disableHardwareAcceleration?: boolean;
+  /**
+   * The class name is passed directly to the list element.
+   */
+  className?: string;
+  /**
+   * Will be merged with generated styles of the list element.
+   */
+  style?: React.CSSProperties;
+}
+
+interface IProps extends IOwnProps, IStickyInjectedProps { }
+
+interface ISectionLayout {
+  sectionRect?: IRect;
+  placeholderRect?: IRect;
+  headerRect?: IRect;
+}
+
+const isBefore = (a: ISection, b: ISection) =>
+  Boolean(
+    a.sectionRef.current &&
+      b.sectionRef.current &&
+      a.sectionRef.current.compareDocumentPosition(b.sectionRef.current) &
+        Node.DOCUMENT_POSITION_FOLLOWING,
+  );
+
+/**
+ * Manages the headers of all `StickySection` components within it as one
+ * group. All headers are measured and positioned within the same update, so
+ * that the incoming header pushes out the current one without jitter.
+ */
+class StickySectionList extends React.PureComponent<IProps> {
+  private listRef: React.RefObject<HTMLDivElement> = React.createRef();
+  private sections: ISection[] = [];
+  private activeSectionId: string | null = null;
+  private dimensions: IDimensions | null = null;
+  private updateTick?: number;
+
+  static defaultProps = {
+    defaultOffsetTop: 0,
+    disabled: false,
+    disableHardwareAcceleration: false,
+  };
+
+  private contextValue: ISectionListContext = {
+    registerSection: (section) => {
+      this.sections.push(section);
+      this.scheduleUpdate();
+    },
+    unregisterSection: (section) => {
+      this.sections = this.sections.filter((s) => s !== section);
+    },
+  };
+
+  componentDidUpdate(prevProps: IProps) {
+    if (this.props.disabled && !prevProps.disabled) {
+      this.sections.forEach((section) =>
+        section.update({
+          styles: {},
+          width: null,
+          height: null,
+          isSticky: false,
+          isActive: false,
+        }),
+      );
+      this.setActiveSection(null);
+    }
+  }
+
+  componentWillUnmount() {
+    cancelAnimationFrame(this.updateTick!);
+  }
+
+  /**
+   * Sections that mount after the list has been laid out would otherwise wait
+   * for the next scroll event, so the whole group is laid out again.
+   */
+  scheduleUpdate() {
+    if (!this.dimensions || this.updateTick !== undefined) {
+      return;
+    }
+    this.updateTick = requestAnimationFrame(() => {
+      this.updateTick = undefined;
+      if (this.dimensions) {
+        this.handleScrollUpdate(
+          { dimensions: this.dimensions },
+          this.recalculateLayoutBeforeUpdate(),
+        );
+      }
+    });
+  }
+
+  setActiveSection(id: string | null) {
+    if (this.activeSectionId === id) {
+      return;
+    }
+    this.activeSectionId = id;
+    if (this.props.onActiveSectionChange) {
+      this.props.onActiveSectionChange(id);
+    }
+  }
+
+  recalculateLayoutBeforeUpdate = (): ISectionLayout[] => {
+    // sections might be mounted in a different order than they appear
+    this.sections.sort((a, b) => (isBefore(a, b) ? -1 : 1));
+    const scrollContainer = this.props.scrollContainer?.current;
+    // within a scroll container all rects are relative to its visible area
+    const origin = scrollContainer
+      ? getScrollContainerOrigin(scrollContainer)
+      : null;
+    return this.sections.map((section) => ({
+      sectionRect: toScrollContainerRect(
+        section.sectionRef.current?.getBoundingClientRect(),
+        origin,
+      ),
+      placeholderRect: toScrollContainerRect(
+        section.placeholderRef.current?.getBoundingClientRect(),
+        origin,
+      ),
+      headerRect: toScrollContainerRect(
+        section.headerRef.current?.getBoundingClientRect(),
+        origin,
+      ),
+    }));
+  };
+
+  handleScrollUpdate = (
+    { dimensions }: { scroll?: IScroll; dimensions: IDimensions },
+    layouts: ISectionLayout[],
+  ) => {
+    this.dimensions = dimensions;
+    if (this.props.disabled) {
+      return;
+    }
+    const offsetTop =
+      this.props.getStickyOffset(this.listRef).top +
+      this.props.defaultOffsetTop!;
+    let activeSectionId: string | null = null;
+    layouts.forEach(({ sectionRect, placeholderRect, headerRect }, index) => {
+      const section = this.sections[index];
+      if (!section || !sectionRect || !placeholderRect || !headerRect) {
+        return;
+      }
+      const { styles, isSticky, isActive } = calcSectionHeaderLayout({
+        sectionRect,
+        placeholderRect,
+        headerHeight: headerRect.height,
+        offsetTop,
+      });
+      if (!this.props.disableHardwareAcceleration) {
+        applyHardwareAcceleration(styles, isNearToViewport(sectionRect));
+      }
+      if (isActive) {
+        activeSectionId = section.id || null;
+      }
+      const alignedStyles = toAlignedPositionStyles(
+        styles,
+        'top',
+        placeholderRect,
+      );
+      section.update({
+        styles: this.props.scrollContainer
+          ? toScrollContainerPositionStyles(
+              alignedStyles,
+              placeholderRect,
+              dimensions,
+            )
+          : alignedStyles,
+        width: placeholderRect.width,
+        height: headerRect.height,
+        isSticky,
+        isActive,
+      });
+    });
+    this.setActiveSection(activeSectionId);
+  };
+
+  render() {
+    const {
+      children,
+      className,
+      style,
+      disabled,
+      scrollContainer,
+    } = this.props;
+    return (
+      <SectionListContext.Provider value={this.contextValue}>
+        <div ref={this.listRef} className={className} style={style}>
+          {children}
+        </div>
+        {scrollContainer ? (
+          <ObserveScrollContainer
+            scrollContainer={scrollContainer}
+            disableScrollUpdates={!!disabled}
+            disableDimensionsUpdates={!!disabled}
+            onUpdate={this.handleScrollUpdate}
+            recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
+          />
+        ) : (
+          <ObserveViewport
+            disableScrollUpdates={disabled}
+            disableDimensionsUpdates={disabled}
+            onUpdate={this.handleScrollUpdate as any}
+            recalculateLayoutBeforeUpdate={this.recalculateLayoutBeforeUpdate}
+            priority="highest"
+          />
+        )}
+      </SectionListContext.Provider>
+    );
+  }
+}
+
+export default connectStickyProvider()<IOwnProps>(StickySectionList);
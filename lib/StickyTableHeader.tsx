@@ -0,0 +1,205 @@
+import * as React from 'react';
+import { ObserveViewport } from 'react-viewport-utils';
+
+import Sticky from './Sticky';
+import ElementResizeObserver from './ElementResizeObserver';
+import { IStickyComponentProps, IStickyMediaProps } from './types';
+
+interface IProps extends IStickyComponentProps, IStickyMediaProps {
+  /**
+   * The reference to the table that contains the body of the table. Its column widths are applied to the sticky header.
+   */
+  table: React.RefObject<HTMLTableElement>;
+  /**
+   * The rows of the table header, usually a single `<tr>` element with `<th>` cells. They are rendered into a `<thead>` of a separate table that sticks to the top of the viewport.
+   */
+  children: React.ReactNode;
+  /**
+   * The reference to the container to stick into. It must contain the header as well as the table. If this is not set, the header will be sticky regardless how far the user scrolls down.
+   */
+  container?: React.RefObject<any>;
+  /**
+   * The reference to the element that scrolls the table horizontally. The horizontal scroll position of the header is kept in sync with it. Defaults to the parent element of the table.
+   */
+  tableScrollContainer?: React.RefObject<HTMLElement>;
+  /**
+   * The class name is passed directly to the table element of the header, e.g. to share the styles of the table.
+   */
+  tableClassName?: string;
+  /**
+   * A top offset to create a padding between the browser window and the header when sticky.
+   */
+  defaultOffsetTop?: number;
+  /**
+   * Adds the header to the stack of sticky elements of the `StickyProvider`, see the `stacked` property of the `Sticky` component.
+   */
+  stacked?: boolean;
+  /**
+   * Is called whenever the header becomes sticky or stops being sticky.
+   */
+  onStickyChange?: (isSticky: boolean) => void;
+  /**
+   * Is called whenever the header gets docked to the bottom of its container or leaves it.
+   */
+  onDockedChange?: (isDocked: boolean) => void;
+}
+
+interface IState {
+  columnWidths: number[];
+  tableWidth: number | null;
+}
+
+// the first row without cells that span multiple columns defines the widths
+const getColumnWidths = (table: HTMLTableElement): number[] => {
+  const tbody = table.tBodies[0];
+  if (!tbody) {
+    return [];
+  }
+  const rows = Array.prototype.slice.call(tbody.rows) as HTMLTableRowElement[];
+  const row =
+    rows.find((r) =>
+      Array.prototype.every.call(
+        r.cells,
+        (cell: HTMLTableCellElement) => cell.colSpan === 1,
+      ),
+    ) || rows[0];
+  if (!row) {
+    return [];
+  }
+  return Array.prototype.map.call(
+    row.cells,
+    (cell: HTMLTableCellElement) => cell.getBoundingClientRect().width,
+  ) as number[];
+};
+
+const shallowEqualArray = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+/**
+ * Sticky header for tables. The header is rendered as a separate table above
+ * the table body so that the cells keep their column widths while sticky.
+ */
+class StickyTableHeader extends React.PureComponent<IProps, IState> {
+  private headerScrollRef: React.RefObject<HTMLDivElement> = React.createRef();
+  private observedScrollContainer: HTMLElement | null = null;
+
+  state: IState = {
+    columnWidths: [],
+    tableWidth: null,
+  };
+
+  componentDidUpdate() {
+    this.syncScrollPosition();
+  }
+
+  componentWillUnmount() {
+    this.unobserveScrollContainer();
+  }
+
+  get tableScrollContainer() {
+    if (this.props.tableScrollContainer) {
+      return this.props.tableScrollContainer.current;
+    }
+    return this.props.table.current
+      ? this.props.table.current.parentElement
+      : null;
+  }
+
+  observeScrollContainer() {
+    // refs of following elements are not yet set when this component mounts
+    const scrollContainer = this.tableScrollContainer;
+    if (scrollContainer === this.observedScrollContainer) {
+      return;
+    }
+    this.unobserveScrollContainer();
+    if (!scrollContainer) {
+      return;
+    }
+    scrollContainer.addEventListener('scroll', this.syncScrollPosition, {
+      passive: true,
+    });
+    this.observedScrollContainer = scrollContainer;
+  }
+
+  unobserveScrollContainer() {
+    if (this.observedScrollContainer) {
+      this.observedScrollContainer.removeEventListener(
+        'scroll',
+        this.syncScrollPosition,
+      );
+      this.observedScrollContainer = null;
+    }
+  }
+
+  syncScrollPosition = () => {
+    const header = this.headerScrollRef.current;
+    if (header && this.observedScrollContainer) {
+      header.scrollLeft = this.observedScrollContainer.scrollLeft;
+    }
+  };
+
+  updateColumnWidths = () => {
+    const table = this.props.table.current;
+    this.observeScrollContainer();
+    if (!table) {
+      return;
+    }
+    const columnWidths = getColumnWidths(table);
+    const tableWidth = table.getBoundingClientRect().width;
+    if (
+      tableWidth === this.state.tableWidth &&
+      shallowEqualArray(columnWidths, this.state.columnWidths)
+    ) {
+      return;
+    }
+    this.setState({ columnWidths, tableWidth });
+  };
+
+  render() {
+    const {
+      table,
+      children,
+      tableScrollContainer,
+      tableClassName,
+      disableResizing,
+      ...stickyProps
+    } = this.props;
+    const { columnWidths, tableWidth } = this.state;
+    return (
+      <>
+        <Sticky {...stickyProps} disableResizing={disableResizing}>
+          <div ref={this.headerScrollRef} style={{ overflow: 'hidden' }}>
+            <table
+              className={tableClassName}
+              style={{
+                tableLayout: 'fixed',
+                width: tableWidth === null ? undefined : tableWidth,
+              }}
+            >
+              <colgroup>
+                {columnWidths.map((width, index) => (
+                  <col key={index} style={{ width }} />
+                ))}
+              </colgroup>
+              <thead>{children}</thead>
+            </table>
+          </div>
+        </Sticky>
+        <ObserveViewport
+          disableScrollUpdates
+          disableDimensionsUpdates={disableResizing}
+          onUpdate={this.updateColumnWidths}
+        />
+        {/* the table is not yet mounted in case it follows the header */}
+        {!disableResizing && tableWidth !== null && (
+          <ElementResizeObserver
+            elementRef={table}
+            onUpdate={this.updateColumnWidths}
+          />
+        )}
+      </>
+    );
+  }
+}
+
+export default StickyTableHeader;
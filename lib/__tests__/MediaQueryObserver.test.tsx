@@ -0,0 +1,118 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import {
+  StickyScrollUp,
+  StickyCollapse,
+  Sticky,
+  StickyProvider,
+} from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('media query', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+  let matches: boolean;
+  let listeners: Array<() => void>;
+  const originalMatchMedia = window.matchMedia;
+
+  // jsdom does not implement `matchMedia`
+  const setMatches = (nextMatches: boolean) => {
+    matches = nextMatches;
+    listeners.forEach((listener) => listener());
+  };
+
+  beforeEach(() => {
+    matches = true;
+    listeners = [];
+    window.matchMedia = (query: string) =>
+      ({
+        media: query,
+        get matches() {
+          return matches;
+        },
+        addEventListener: (type: string, listener: () => void) => {
+          listeners.push(listener);
+        },
+        removeEventListener: (type: string, listener: () => void) => {
+          listeners = listeners.filter((l) => l !== listener);
+        },
+      } as any);
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+    window.matchMedia = originalMatchMedia;
+  });
+
+  it('resets the sticky components and their offsets while the query does not match', async () => {
+    const media = '(min-width: 768px)';
+    ReactDOM.render(
+      <StickyProvider syncScrollPadding>
+        <StickyScrollUp media={media} stickyProps={{ id: 'header' }}>
+          <div />
+        </StickyScrollUp>
+        <StickyCollapse
+          media={media}
+          collapsedHeight={100}
+          stickyProps={{ id: 'collapse' }}
+        >
+          <div />
+        </StickyCollapse>
+        <Sticky media={media} stacked stickyProps={{ id: 'sticky' }}>
+          <div />
+        </Sticky>
+        <Sticky stickyProps={{ id: 'last' }}>
+          <div />
+        </Sticky>
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    const collapse = document.getElementById('collapse')!;
+    const sticky = document.getElementById('sticky')!;
+    const last = document.getElementById('last')!;
+    const getScrollPadding = () =>
+      document.documentElement.style.getPropertyValue('scroll-padding-top');
+    viewport.setRect(header, { top: 0, height: 50 });
+    viewport.setRect(collapse, { top: 50, height: 300 });
+    viewport.setRect(sticky, { top: 350, height: 50 });
+    viewport.setRect(last, { top: 400, height: 30 });
+    await viewport.update();
+    await viewport.scrollTo(1000);
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('fixed');
+    expect(collapse.style.position).toBe('fixed');
+    expect(collapse.style.top).toBe('50px');
+    expect(sticky.style.top).toBe('150px');
+    expect(last.style.top).toBe('200px');
+    expect(getScrollPadding()).toBe('230px');
+
+    setMatches(false);
+    await viewport.update();
+    // the other elements follow the stack with their next update
+    await viewport.scrollBy(10);
+    [header, collapse, sticky].forEach((element) => {
+      expect(element.style.position).toBe('');
+      expect(element.style.top).toBe('');
+      expect(element.parentElement!.style.height).toBe('');
+    });
+    expect(last.style.position).toBe('fixed');
+    expect(last.style.top).toBe('0px');
+    expect(getScrollPadding()).toBe('30px');
+
+    setMatches(true);
+    await viewport.update();
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('fixed');
+    expect(sticky.style.top).toBe('150px');
+    expect(last.style.top).toBe('200px');
+    expect(getScrollPadding()).toBe('230px');
+  });
+});
@@ -0,0 +1,94 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { Sticky, StickyProvider } from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('scroll container', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+  let resizeCallbacks: Array<() => void>;
+  const originalResizeObserver = window.ResizeObserver;
+
+  beforeEach(() => {
+    resizeCallbacks = [];
+    window.ResizeObserver = class {
+      constructor(callback: () => void) {
+        resizeCallbacks.push(callback);
+      }
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    } as any;
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 1000, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+    window.ResizeObserver = originalResizeObserver;
+  });
+
+  const render = (children: React.ReactNode) => {
+    const scrollContainer = React.createRef<HTMLDivElement>();
+    ReactDOM.render(
+      <div ref={scrollContainer}>
+        <StickyProvider scrollContainer={scrollContainer}>
+          {children}
+        </StickyProvider>
+      </div>,
+      root,
+    );
+    viewport.setScrollContainer(scrollContainer, {
+      top: 100,
+      height: 400,
+      scrollHeight: 2000,
+    });
+    return scrollContainer;
+  };
+
+  it('sticks to the visible area of the container instead of the window', async () => {
+    const scrollContainer = render(
+      <Sticky stickyProps={{ id: 'sticky' }}>
+        <div />
+      </Sticky>,
+    );
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(sticky, { top: 200, height: 50 });
+    await viewport.update();
+    expect(sticky.getBoundingClientRect().top).toBe(300);
+
+    await viewport.scrollTo(300, { container: scrollContainer });
+    // fixed elements would stick to the window
+    expect(sticky.style.position).toBe('absolute');
+    expect(sticky.getBoundingClientRect().top).toBe(100);
+
+    // the window does not affect the elements within the container
+    await viewport.scrollTo(50);
+    expect(sticky.style.position).toBe('absolute');
+    expect(sticky.getBoundingClientRect().top).toBe(50);
+  });
+
+  it('measures the elements again once the container resizes', async () => {
+    const scrollContainer = render(
+      <Sticky edge="bottom" stickyProps={{ id: 'sticky' }}>
+        <div />
+      </Sticky>,
+    );
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(sticky, { top: 1000, height: 50 });
+    await viewport.update();
+    expect(sticky.getBoundingClientRect().bottom).toBe(500);
+
+    viewport.setScrollContainer(scrollContainer, {
+      top: 100,
+      height: 300,
+      scrollHeight: 2000,
+    });
+    resizeCallbacks.forEach((callback) => callback());
+    await viewport.update();
+    expect(sticky.getBoundingClientRect().bottom).toBe(400);
+  });
+});
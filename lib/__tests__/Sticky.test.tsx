@@ -0,0 +1,261 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import {
+  StickyScrollUp,
+  StickyCollapse,
+  Sticky,
+  StickyProvider,
+} from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('Sticky', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  it('passes the progress through the container of Sticky', async () => {
+    const container = React.createRef<HTMLDivElement>();
+    const onProgressChange = jest.fn();
+    ReactDOM.render(
+      <StickyProvider>
+        <div ref={container}>
+          <Sticky
+            container={container}
+            progressStep={0.1}
+            onProgressChange={onProgressChange}
+            stickyProps={{ id: 'sticky' }}
+          >
+            {({ progress }) => <div>{progress}</div>}
+          </Sticky>
+        </div>
+      </StickyProvider>,
+      root,
+    );
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(container, { top: 100, height: 1050 });
+    viewport.setRect(sticky, { top: 100, height: 50 });
+    await viewport.update();
+    expect(sticky.textContent).toBe('0');
+
+    await viewport.scrollTo(540);
+    expect(sticky.textContent).toBe('0.4');
+    expect(onProgressChange).toHaveBeenLastCalledWith(0.4, {
+      stickyRect: expect.objectContaining({ height: 50 }),
+      containerRect: expect.objectContaining({ top: -440 }),
+    });
+
+    // smaller changes than the step do not render
+    const calls = onProgressChange.mock.calls.length;
+    await viewport.scrollTo(545);
+    expect(onProgressChange).toHaveBeenCalledTimes(calls);
+  });
+
+  it('keeps the sticky components aligned when scrolling horizontally', async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <Sticky stickyProps={{ id: 'sticky' }}>
+          <div />
+        </Sticky>
+        <StickyScrollUp stickyProps={{ id: 'header' }}>
+          <div />
+        </StickyScrollUp>
+        <StickyCollapse collapsedHeight={100} stickyProps={{ id: 'collapse' }}>
+          <div />
+        </StickyCollapse>
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    const collapse = document.getElementById('collapse')!;
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(sticky, { top: 0, left: 20, height: 50 });
+    viewport.setRect(header, { top: 50, left: 20, height: 50 });
+    viewport.setRect(collapse, { top: 100, left: 20, height: 200 });
+    await viewport.update();
+
+    await viewport.scrollTo(1000);
+    expect(collapse.style.position).toBe('fixed');
+    expect(collapse.style.left).toBe('20px');
+    expect(sticky.style.position).toBe('fixed');
+    expect(sticky.style.left).toBe('20px');
+
+    await viewport.scrollTo({ x: 50 });
+    expect(collapse.style.left).toBe('-30px');
+    expect(sticky.style.left).toBe('-30px');
+
+    // the header is revealed at the horizontal scroll position
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('fixed');
+    expect(header.style.left).toBe('-30px');
+  });
+
+  it('moves Sticky within the flow of the document with positioning transform', async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <Sticky positioning="transform" stickyProps={{ id: 'sticky' }}>
+          <div />
+        </Sticky>
+      </StickyProvider>,
+      root,
+    );
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(sticky, { top: 100, height: 50 });
+    await viewport.update();
+    expect(sticky.getBoundingClientRect().top).toBe(100);
+
+    await viewport.scrollTo(200);
+    expect(sticky.style.position).toBe('relative');
+    expect(sticky.style.transform).toBe('translate3d(0px, 100px, 0)');
+    expect(sticky.getBoundingClientRect().top).toBe(0);
+
+    await viewport.scrollTo(300);
+    expect(sticky.style.position).toBe('relative');
+    expect(sticky.style.transform).toBe('translate3d(0px, 200px, 0)');
+    expect(sticky.getBoundingClientRect().top).toBe(0);
+  });
+
+  it('publishes the state of Sticky as css variables', async () => {
+    const render = (props: { cssVariables?: boolean; disabled?: boolean }) =>
+      ReactDOM.render(
+        <StickyProvider>
+          <Sticky {...props} stickyProps={{ id: 'sticky' }}>
+            <div />
+          </Sticky>
+        </StickyProvider>,
+        root,
+      );
+    const getVariables = (element: HTMLElement) =>
+      ['--sticky-offset', '--sticky-height', '--sticky-is-sticky'].map((name) =>
+        element.style.getPropertyValue(name),
+      );
+    render({ cssVariables: true });
+    const sticky = document.getElementById('sticky')!;
+    const placeholder = sticky.parentElement!;
+    viewport.setRect(sticky, { top: 100, height: 50 });
+    await viewport.update();
+    expect(getVariables(placeholder)).toEqual(['0px', '50px', '0']);
+    expect(getVariables(sticky)).toEqual(['0px', '50px', '0']);
+
+    await viewport.scrollTo(200);
+    expect(getVariables(placeholder)).toEqual(['0px', '50px', '1']);
+    expect(getVariables(sticky)).toEqual(['0px', '50px', '1']);
+
+    render({ cssVariables: false });
+    expect(getVariables(placeholder)).toEqual(['', '', '']);
+    expect(getVariables(sticky)).toEqual(['', '', '']);
+
+    render({ cssVariables: true });
+    await viewport.scrollTo(210);
+    expect(getVariables(sticky)).toEqual(['0px', '50px', '1']);
+
+    render({ cssVariables: true, disabled: true });
+    await viewport.update();
+    expect(getVariables(placeholder)).toEqual(['', '', '']);
+    expect(getVariables(sticky)).toEqual(['', '', '']);
+  });
+
+  it('calls onDockedChange once per change', async () => {
+    const container = React.createRef<HTMLDivElement>();
+    const onDockedChange = jest.fn();
+    ReactDOM.render(
+      <StickyProvider>
+        <div ref={container}>
+          <Sticky
+            container={container}
+            onDockedChange={onDockedChange}
+            stickyProps={{ id: 'sticky' }}
+          >
+            <div />
+          </Sticky>
+        </div>
+      </StickyProvider>,
+      root,
+    );
+    viewport.setRect(container, { top: 100, height: 1000 });
+    viewport.setRect(document.getElementById('sticky')!, {
+      top: 100,
+      height: 50,
+    });
+    await viewport.update();
+    await viewport.scrollTo(200);
+    expect(onDockedChange).not.toHaveBeenCalled();
+
+    await viewport.scrollTo(1200);
+    await viewport.scrollTo(1300);
+    expect(onDockedChange.mock.calls).toEqual([[true]]);
+
+    await viewport.scrollTo(200);
+    await viewport.scrollTo(0);
+    expect(onDockedChange.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('calls onNearToViewportChange once per change', async () => {
+    const onNearToViewportChange = jest.fn();
+    ReactDOM.render(
+      <StickyProvider>
+        <Sticky
+          onNearToViewportChange={onNearToViewportChange}
+          stickyProps={{ id: 'sticky' }}
+        >
+          <div />
+        </Sticky>
+      </StickyProvider>,
+      root,
+    );
+    viewport.setRect(document.getElementById('sticky')!, {
+      top: 2000,
+      height: 50,
+    });
+    await viewport.update();
+    expect(onNearToViewportChange).not.toHaveBeenCalled();
+
+    await viewport.scrollTo(1500);
+    await viewport.scrollTo(1600);
+    expect(onNearToViewportChange.mock.calls).toEqual([[true]]);
+
+    await viewport.scrollTo(0);
+    expect(onNearToViewportChange.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('calls onOverflowScrollChange once per change', async () => {
+    const onOverflowScrollChange = jest.fn();
+    ReactDOM.render(
+      <StickyProvider>
+        <Sticky
+          overflowScroll="flow"
+          onOverflowScrollChange={onOverflowScrollChange}
+          stickyProps={{ id: 'sticky' }}
+        >
+          <div />
+        </Sticky>
+      </StickyProvider>,
+      root,
+    );
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(sticky, { top: 100, height: 400 });
+    await viewport.scrollTo(200);
+    expect(onOverflowScrollChange).not.toHaveBeenCalled();
+
+    // the element exceeds the viewport
+    viewport.setRect(sticky, { top: 100, height: 600 });
+    await viewport.scrollTo(210);
+    await viewport.scrollTo(220);
+    expect(onOverflowScrollChange.mock.calls).toEqual([['flow']]);
+
+    viewport.setRect(sticky, { top: 100, height: 400 });
+    await viewport.scrollTo(230);
+    expect(onOverflowScrollChange.mock.calls).toEqual([['flow'], ['end']]);
+  });
+});
@@ -0,0 +1,134 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import {
+  StickyScrollUp,
+  StickyCollapse,
+  Sticky,
+  StickyProvider,
+} from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('StickyCollapse', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  it('collapses StickyCollapse and moves the stacked elements up', async () => {
+    const progress: number[] = [];
+    ReactDOM.render(
+      <StickyProvider>
+        <StickyCollapse collapsedHeight={100} stickyProps={{ id: 'header' }}>
+          {({ collapseProgress }) => {
+            progress.push(collapseProgress);
+            return <div />;
+          }}
+        </StickyCollapse>
+        <Sticky stacked stickyProps={{ id: 'sticky' }}>
+          <div />
+        </Sticky>
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(header, { top: 0, height: 300 });
+    viewport.setRect(sticky, { top: 300, height: 50 });
+    await viewport.update();
+
+    await viewport.scrollTo(100);
+    expect(progress[progress.length - 1]).toBe(0.5);
+    expect(header.style.position).toBe('fixed');
+    expect(header.style.height).toBe('200px');
+
+    await viewport.scrollTo(1000);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(header.style.height).toBe('100px');
+    expect(sticky.style.top).toBe('100px');
+  });
+
+  it('sticks StickyCollapse below the revealed StickyScrollUp', async () => {
+    ReactDOM.render(
+      <StickyProvider syncScrollPadding>
+        <StickyScrollUp stickyProps={{ id: 'header' }}>
+          <div />
+        </StickyScrollUp>
+        <StickyCollapse collapsedHeight={100} stickyProps={{ id: 'collapse' }}>
+          <div />
+        </StickyCollapse>
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    const collapse = document.getElementById('collapse')!;
+    viewport.setRect(header, { top: 0, height: 50 });
+    viewport.setRect(collapse, { top: 500, height: 300 });
+    await viewport.update();
+    // the expanded element does not cover anything before it sticks
+    expect(
+      document.documentElement.style.getPropertyValue('scroll-padding-top'),
+    ).toBe('150px');
+
+    await viewport.scrollTo(1000);
+    expect(header.style.position).toBe('absolute');
+    expect(collapse.style.position).toBe('fixed');
+    expect(collapse.style.top).toBe('0px');
+
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('fixed');
+    expect(collapse.style.top).toBe('50px');
+  });
+
+  it('publishes the collapse progress of StickyCollapse as css variables', async () => {
+    const render = (props: { cssVariables?: boolean; disabled?: boolean }) =>
+      ReactDOM.render(
+        <StickyProvider>
+          <StickyCollapse
+            {...props}
+            collapsedHeight={100}
+            stickyProps={{ id: 'header' }}
+          >
+            <div />
+          </StickyCollapse>
+        </StickyProvider>,
+        root,
+      );
+    const getVariables = (element: HTMLElement) =>
+      ['--sticky-height', '--sticky-collapse-progress'].map((name) =>
+        element.style.getPropertyValue(name),
+      );
+    render({ cssVariables: true });
+    const header = document.getElementById('header')!;
+    const placeholder = header.parentElement!;
+    viewport.setRect(header, { top: 0, height: 300 });
+    await viewport.update();
+
+    await viewport.scrollTo(100);
+    expect(getVariables(placeholder)).toEqual(['200px', '0.5']);
+    expect(getVariables(header)).toEqual(['200px', '0.5']);
+
+    render({ cssVariables: false });
+    expect(getVariables(placeholder)).toEqual(['', '']);
+    expect(getVariables(header)).toEqual(['', '']);
+
+    render({ cssVariables: true });
+    await viewport.scrollTo(150);
+    expect(getVariables(header)).toEqual(['150px', '0.75']);
+
+    render({ cssVariables: true, disabled: true });
+    await viewport.update();
+    expect(getVariables(placeholder)).toEqual(['', '']);
+    expect(getVariables(header)).toEqual(['', '']);
+  });
+});
@@ -0,0 +1,84 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { Sticky, StickyProvider, StickyDebugger } from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('StickyDebugger', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  it('shows the layout of each sticky within the StickyDebugger', async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <Sticky stickyProps={{ id: 'sticky' }}>
+          <div />
+        </Sticky>
+        <StickyDebugger />
+      </StickyProvider>,
+      root,
+    );
+    viewport.setRect(document.getElementById('sticky')!, {
+      top: 100,
+      height: 50,
+    });
+    await viewport.scrollTo(200);
+    const overlay = root.querySelector('[data-sticky-debugger]')!;
+    expect(overlay.textContent).toContain('#0 Sticky (top)');
+    expect(overlay.textContent).toContain('isSticky: true');
+  });
+
+  it('draws the offset line of each sticky at the offset it sticks at', async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <Sticky stacked stickyProps={{ id: 'first' }}>
+          <div />
+        </Sticky>
+        <Sticky stacked stickyProps={{ id: 'second' }}>
+          <div />
+        </Sticky>
+        <Sticky edge="left" stickyProps={{ id: 'side' }}>
+          <div />
+        </Sticky>
+        <StickyDebugger />
+      </StickyProvider>,
+      root,
+    );
+    viewport.setRect(document.getElementById('first')!, {
+      top: 100,
+      height: 50,
+    });
+    viewport.setRect(document.getElementById('second')!, {
+      top: 150,
+      height: 30,
+    });
+    viewport.setRect(document.getElementById('side')!, {
+      top: 200,
+      left: 100,
+      width: 50,
+      height: 50,
+    });
+    await viewport.scrollTo(300);
+    // the stack is measured once the elements above stick
+    await viewport.scrollTo({ x: 200, y: 310 });
+    const getLine = (label: string) =>
+      Array.from(
+        root.querySelectorAll<HTMLElement>('[data-sticky-debugger] div'),
+      ).find((element) => element.textContent === label)!;
+    expect(getLine('#0 Sticky offset').style.top).toBe('0px');
+    expect(getLine('#1 Sticky offset').style.top).toBe('50px');
+    expect(getLine('#2 Sticky offset').style.left).toBe('0px');
+    expect(getLine('#2 Sticky offset').style.borderLeft).toContain('dotted');
+  });
+});
@@ -0,0 +1,244 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import {
+  StickyScrollUp,
+  Sticky,
+  StickyProvider,
+  useStickyOverlayZIndex,
+  useStickyScrollTo,
+} from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('StickyProvider', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  it('assigns the z-index by the order and the state of the elements', async () => {
+    const Overlay = () => (
+      <div id="overlay" style={{ zIndex: useStickyOverlayZIndex() }} />
+    );
+    const container = React.createRef<HTMLDivElement>();
+    ReactDOM.render(
+      <StickyProvider zIndex={10}>
+        <StickyScrollUp stickyProps={{ id: 'header' }}>
+          <div />
+        </StickyScrollUp>
+        <div ref={container}>
+          <Sticky container={container} stickyProps={{ id: 'sticky' }}>
+            <div />
+          </Sticky>
+        </div>
+        <Overlay />
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(header, { top: 0, height: 50 });
+    viewport.setRect(container, { top: 100, height: 1000 });
+    viewport.setRect(sticky, { top: 100, height: 50 });
+    await viewport.update();
+    expect(header.style.zIndex).toBe('11');
+    expect(sticky.style.zIndex).toBe('10');
+    expect(document.getElementById('overlay')!.style.zIndex).toBe('14');
+
+    await viewport.scrollTo(200);
+    expect(sticky.style.zIndex).toBe('12');
+  });
+
+  it('scrolls targets below sticky elements that are not sticky yet', async () => {
+    let scrollTo: ReturnType<typeof useStickyScrollTo>;
+    const ScrollTo = () => {
+      scrollTo = useStickyScrollTo();
+      return null;
+    };
+    ReactDOM.render(
+      <StickyProvider syncScrollPadding>
+        <Sticky stacked stickyProps={{ id: 'subnav' }}>
+          <div />
+        </Sticky>
+        <Sticky stickyProps={{ id: 'sticky' }}>
+          <div />
+        </Sticky>
+        <div id="target" />
+        <ScrollTo />
+      </StickyProvider>,
+      root,
+    );
+    viewport.setRect(document.getElementById('subnav')!, {
+      top: 300,
+      height: 50,
+    });
+    viewport.setRect(document.getElementById('sticky')!, {
+      top: 400,
+      height: 30,
+    });
+    viewport.setRect(document.getElementById('target')!, {
+      top: 1000,
+      height: 20,
+    });
+    await viewport.update();
+    // the element that is not stacked sticks below the stacked one
+    expect(
+      document.documentElement.style.getPropertyValue('scroll-padding-top'),
+    ).toBe('80px');
+
+    scrollTo!(document.getElementById('target')!);
+    await viewport.update();
+    expect(window.pageYOffset).toBe(920);
+  });
+
+  it('scrolls the target of the url hash below the stacked elements with correctHashNavigation', async () => {
+    window.history.replaceState(null, '', '#target');
+    try {
+      ReactDOM.render(
+        <StickyProvider correctHashNavigation>
+          <Sticky stacked stickyProps={{ id: 'subnav' }}>
+            <div />
+          </Sticky>
+          <Sticky stickyProps={{ id: 'sticky' }}>
+            <div />
+          </Sticky>
+          <div id="target" />
+          <div id="other" />
+        </StickyProvider>,
+        root,
+      );
+      viewport.setRect(document.getElementById('subnav')!, {
+        top: 300,
+        height: 50,
+      });
+      viewport.setRect(document.getElementById('sticky')!, {
+        top: 400,
+        height: 30,
+      });
+      viewport.setRect(document.getElementById('target')!, {
+        top: 1000,
+        height: 20,
+      });
+      viewport.setRect(document.getElementById('other')!, {
+        top: 1500,
+        height: 20,
+      });
+      // the target of the initial url is corrected once the page is laid out
+      await viewport.update();
+      expect(window.pageYOffset).toBe(920);
+
+      await viewport.scrollTo(0);
+      window.history.replaceState(null, '', '#other');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+      await viewport.update();
+      expect(window.pageYOffset).toBe(1420);
+    } finally {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  });
+
+  it('keeps the keyboard focus visible with correctFocus', async () => {
+    // jsdom does not dispatch `focusin` on its own
+    const focus = (id: string) => {
+      const element = document.getElementById(id)!;
+      element.focus();
+      element.dispatchEvent(new FocusEvent('focusin', { bubbles: true }));
+    };
+    ReactDOM.render(
+      <StickyProvider correctFocus>
+        <StickyScrollUp stickyProps={{ id: 'header' }}>
+          <button id="menu" />
+        </StickyScrollUp>
+        <Sticky stacked stickyProps={{ id: 'sticky' }}>
+          <div />
+        </Sticky>
+        <input id="input" />
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    viewport.setRect(header, { top: 0, height: 50 });
+    viewport.setRect(document.getElementById('sticky')!, {
+      top: 50,
+      height: 50,
+    });
+    viewport.setRect(document.getElementById('input')!, {
+      top: 1000,
+      height: 20,
+    });
+    await viewport.update();
+    await viewport.scrollTo(990);
+    expect(header.style.position).toBe('absolute');
+
+    // the input is covered by the stacked element
+    focus('input');
+    await viewport.update();
+    // placed below the stack, including the header revealed by scrolling up
+    expect(window.pageYOffset).toBe(900);
+
+    await viewport.scrollTo(2000);
+    expect(header.style.position).toBe('absolute');
+    // focus within the hidden header reveals it
+    focus('menu');
+    await viewport.update();
+    expect(header.style.position).toBe('fixed');
+    expect(header.style.top).toBe('0px');
+  });
+
+  it('only listens to focus changes while correctFocus is enabled', () => {
+    const addEventListener = jest.spyOn(document, 'addEventListener');
+    const removeEventListener = jest.spyOn(document, 'removeEventListener');
+    const isFocusIn = ([type]: any[]) => type === 'focusin';
+    try {
+      ReactDOM.render(<StickyProvider />, root);
+      expect(addEventListener.mock.calls.filter(isFocusIn)).toHaveLength(0);
+
+      ReactDOM.render(<StickyProvider correctFocus />, root);
+      expect(addEventListener.mock.calls.filter(isFocusIn)).toHaveLength(1);
+
+      ReactDOM.render(<StickyProvider />, root);
+      expect(removeEventListener.mock.calls.filter(isFocusIn)).toHaveLength(1);
+
+      ReactDOM.unmountComponentAtNode(root);
+      expect(removeEventListener.mock.calls.filter(isFocusIn)).toHaveLength(1);
+    } finally {
+      addEventListener.mockRestore();
+      removeEventListener.mockRestore();
+    }
+  });
+
+  it('only listens to hash changes while correctHashNavigation is enabled', () => {
+    const addEventListener = jest.spyOn(window, 'addEventListener');
+    const removeEventListener = jest.spyOn(window, 'removeEventListener');
+    const isHashChange = ([type]: any[]) => type === 'hashchange';
+    try {
+      ReactDOM.render(<StickyProvider />, root);
+      expect(addEventListener.mock.calls.filter(isHashChange)).toHaveLength(0);
+
+      ReactDOM.render(<StickyProvider correctHashNavigation />, root);
+      expect(addEventListener.mock.calls.filter(isHashChange)).toHaveLength(1);
+
+      ReactDOM.render(<StickyProvider />, root);
+      expect(removeEventListener.mock.calls.filter(isHashChange)).toHaveLength(
+        1,
+      );
+
+      ReactDOM.unmountComponentAtNode(root);
+      expect(removeEventListener.mock.calls.filter(isHashChange)).toHaveLength(
+        1,
+      );
+    } finally {
+      addEventListener.mockRestore();
+      removeEventListener.mockRestore();
+    }
+  });
+});
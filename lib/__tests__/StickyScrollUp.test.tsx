@@ -0,0 +1,86 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { StickyScrollUp, StickyProvider } from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('StickyScrollUp', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  // jsdom does not implement `PointerEvent`
+  const pointerDown = (pointerType: string) => {
+    const event = new Event('pointerdown');
+    Object.defineProperty(event, 'pointerType', { value: pointerType });
+    window.dispatchEvent(event);
+  };
+
+  it('applies the tolerance of the last used pointer type', async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <StickyScrollUp
+          tolerance={{ mouse: 0, touch: { up: 100 } }}
+          stickyProps={{ id: 'header' }}
+        >
+          <div />
+        </StickyScrollUp>
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    viewport.setRect(header, { top: 0, height: 50 });
+    await viewport.update();
+    await viewport.scrollTo(1000);
+    expect(header.style.position).toBe('absolute');
+
+    pointerDown('touch');
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('absolute');
+    expect(header.getBoundingClientRect().bottom).toBeLessThanOrEqual(0);
+    await viewport.scrollBy(-120);
+    expect(header.style.position).toBe('fixed');
+
+    await viewport.scrollTo(2000);
+    expect(header.style.position).toBe('absolute');
+
+    pointerDown('mouse');
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('fixed');
+  });
+
+  it('reveals StickyScrollUp within the flow of the document with positioning transform', async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <StickyScrollUp positioning="transform" stickyProps={{ id: 'header' }}>
+          <div />
+        </StickyScrollUp>
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    viewport.setRect(header, { top: 0, height: 50 });
+    await viewport.update();
+    await viewport.scrollTo(1000);
+    expect(header.style.position).not.toBe('fixed');
+    expect(header.getBoundingClientRect().bottom).toBeLessThanOrEqual(0);
+
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('relative');
+    expect(header.style.transform).toBe('translate3d(0px, 930px, 0)');
+    expect(header.getBoundingClientRect().top).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { StickySectionList, StickySection, StickyProvider } from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('StickySectionList', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  const render = (
+    ids: string[],
+    onActiveSectionChange?: (id: string | null) => void,
+  ) => {
+    ReactDOM.render(
+      <StickyProvider>
+        <StickySectionList onActiveSectionChange={onActiveSectionChange}>
+          {ids.map((id) => (
+            <StickySection
+              key={id}
+              id={id}
+              header={<h2 />}
+              headerProps={{ id: `${id}-header` }}
+            >
+              <div />
+            </StickySection>
+          ))}
+        </StickySectionList>
+      </StickyProvider>,
+      root,
+    );
+    ids.forEach((id, index) => {
+      const section = document.getElementById(id)!;
+      const top = 100 + index * 500;
+      viewport.setRect(section, { top, height: 500 });
+      viewport.setRect(section.firstChild as HTMLElement, { top, height: 50 });
+      viewport.setRect(document.getElementById(`${id}-header`)!, {
+        top: 0,
+        height: 50,
+      });
+    });
+  };
+
+  const getHeader = (id: string) => document.getElementById(`${id}-header`)!;
+
+  it('pushes out the header of a section by the header of the next one', async () => {
+    const onActiveSectionChange = jest.fn();
+    render(['a', 'b'], onActiveSectionChange);
+    await viewport.update();
+    expect(getHeader('a').style.position).toBe('absolute');
+    expect(onActiveSectionChange).not.toHaveBeenCalled();
+
+    await viewport.scrollTo(200);
+    expect(getHeader('a').style.position).toBe('fixed');
+    expect(getHeader('a').getBoundingClientRect().top).toBe(0);
+    expect(onActiveSectionChange).toHaveBeenLastCalledWith('a');
+
+    await viewport.scrollTo(570);
+    // the section ends 30px below the top of the viewport
+    expect(getHeader('a').style.position).toBe('absolute');
+    expect(getHeader('a').getBoundingClientRect().top).toBe(-20);
+    expect(getHeader('b').style.position).toBe('absolute');
+    expect(getHeader('b').getBoundingClientRect().top).toBe(30);
+
+    await viewport.scrollTo(650);
+    expect(getHeader('b').style.position).toBe('fixed');
+    expect(getHeader('b').getBoundingClientRect().top).toBe(0);
+    expect(onActiveSectionChange).toHaveBeenLastCalledWith('b');
+    expect(onActiveSectionChange).toHaveBeenCalledTimes(2);
+
+    await viewport.scrollTo(0);
+    expect(onActiveSectionChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('lays out sections that mount after the list without a scroll event', async () => {
+    render(['a']);
+    await viewport.scrollTo(650);
+    expect(getHeader('a').style.position).toBe('absolute');
+
+    render(['a', 'b']);
+    await viewport.update();
+    expect(getHeader('b').style.position).toBe('fixed');
+    expect(getHeader('b').getBoundingClientRect().top).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { StickyTableHeader, StickyProvider } from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('StickyTableHeader', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  const render = () => {
+    const table = React.createRef<HTMLTableElement>();
+    ReactDOM.render(
+      <StickyProvider>
+        <StickyTableHeader table={table} tableClassName="header">
+          <tr>
+            <th>Name</th>
+            <th>Price</th>
+          </tr>
+        </StickyTableHeader>
+        <div id="scroll">
+          <table ref={table}>
+            <tbody>
+              <tr>
+                <td colSpan={2}>Fruits</td>
+              </tr>
+              <tr>
+                <td id="name">Apple</td>
+                <td id="price">1.00</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </StickyProvider>,
+      root,
+    );
+    viewport.setRect(table, { top: 50, width: 300, height: 40 });
+    viewport.setRect(document.getElementById('name')!, {
+      top: 70,
+      width: 100,
+      height: 20,
+    });
+    viewport.setRect(document.getElementById('price')!, {
+      top: 70,
+      left: 100,
+      width: 200,
+      height: 20,
+    });
+    const header = root.querySelector<HTMLTableElement>('table.header')!;
+    return { table, header };
+  };
+
+  it('copies the column widths of the first body row to the header', async () => {
+    const { header } = render();
+    await viewport.update();
+    const cols = Array.from(header.querySelectorAll('col'));
+    // the row with the spanning cell is skipped
+    expect(cols.map((col) => col.style.width)).toEqual(['100px', '200px']);
+    expect(header.style.width).toBe('300px');
+    expect(header.style.tableLayout).toBe('fixed');
+  });
+
+  it('keeps the horizontal scroll position of the header in sync', async () => {
+    const { header } = render();
+    const scrollContainer = document.getElementById('scroll')!;
+    viewport.setScrollContainer(scrollContainer, {
+      top: 50,
+      width: 200,
+      height: 40,
+      scrollWidth: 300,
+    });
+    viewport.setScrollContainer(header.parentElement!, {
+      top: 0,
+      width: 200,
+      height: 50,
+      scrollWidth: 300,
+    });
+    await viewport.update();
+
+    await viewport.scrollTo({ x: 60 }, { container: scrollContainer });
+    expect(header.parentElement!.scrollLeft).toBe(60);
+  });
+});
@@ -1,6 +1,8 @@
 import * as React from 'react';
 import * as ReactDOM from 'react-dom';
+import ReactDOMServer from 'react-dom/server';
 import { StickyScrollUp, Sticky, StickyProvider } from '../index';
+import { createViewportDriver } from '../testing';
 
 describe('browser rendering', () => {
   it('renders without crashing', () => {
@@ -19,3 +21,37 @@ describe('browser rendering', () => {
     ReactDOM.unmountComponentAtNode(div);
   });
 });
+
+describe('hydration', () => {
+  it('keeps the default sticky styles while the default size is corrected', async () => {
+    const viewport = createViewportDriver();
+    const root = document.createElement('div');
+    document.body.appendChild(root);
+    const app = (
+      <StickyProvider>
+        <Sticky defaultSize={{ height: 50 }} defaultSticky>
+          <div />
+        </Sticky>
+      </StickyProvider>
+    );
+    root.innerHTML = ReactDOMServer.renderToString(app);
+    const placeholder = root.firstElementChild as HTMLElement;
+    const sticky = placeholder.firstElementChild as HTMLElement;
+    viewport.setRect(sticky, { top: 0, height: 60 });
+    const positions: string[] = [];
+    const observer = new MutationObserver(() =>
+      positions.push(sticky.style.position),
+    );
+    observer.observe(sticky, { attributes: true });
+
+    ReactDOM.hydrate(app, root);
+    await viewport.update();
+    expect(placeholder.style.height).toBe('60px');
+    expect(positions.every((position) => position === 'fixed')).toBe(true);
+
+    observer.disconnect();
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+});
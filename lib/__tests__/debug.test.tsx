@@ -0,0 +1,58 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { Sticky, StickyProvider } from '../index';
+import { hasDebugListeners, subscribeDebugInfo } from '../debug';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('debug info', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  const render = async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <Sticky stickyProps={{ id: 'sticky' }}>
+          <div />
+        </Sticky>
+      </StickyProvider>,
+      root,
+    );
+    viewport.setRect(document.getElementById('sticky')!, {
+      top: 100,
+      height: 50,
+    });
+    await viewport.scrollTo(200);
+  };
+
+  it('is only published while a listener is subscribed', async () => {
+    expect(hasDebugListeners()).toBe(false);
+    await render();
+    const listener = jest.fn();
+    const unsubscribe = subscribeDebugInfo(listener);
+    expect(hasDebugListeners()).toBe(true);
+    expect(listener).toHaveBeenLastCalledWith([]);
+
+    await viewport.scrollTo(210);
+    expect(listener).toHaveBeenLastCalledWith([
+      expect.objectContaining({ name: 'Sticky' }),
+    ]);
+
+    unsubscribe();
+    expect(hasDebugListeners()).toBe(false);
+    // outdated entries are not shown to the next listener
+    subscribeDebugInfo(listener)();
+    expect(listener).toHaveBeenLastCalledWith([]);
+  });
+});
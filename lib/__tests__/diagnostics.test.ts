@@ -0,0 +1,70 @@
+import { diagnoseStickySetup } from '../diagnostics';
+
+describe('diagnoseStickySetup', () => {
+  const createRect = (height: number) => ({
+    top: 0,
+    bottom: height,
+    left: 0,
+    right: 100,
+    width: 100,
+    height,
+  });
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="container">
+        <div id="wrapper"><div id="placeholder"></div></div>
+      </div>
+      <div id="other"></div>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const diagnose = (setup: object = {}) =>
+    diagnoseStickySetup({
+      name: 'Sticky',
+      placeholder: document.getElementById('placeholder'),
+      container: document.getElementById('container'),
+      hasProvider: true,
+      usesFixedPosition: true,
+      ...setup,
+    });
+
+  it('accepts a valid setup', () => {
+    expect(diagnose()).toEqual([]);
+  });
+
+  it('warns about a missing provider', () => {
+    expect(diagnose({ hasProvider: false })).toEqual([
+      expect.stringContaining('without a `StickyProvider`'),
+    ]);
+  });
+
+  it('warns about a container that does not contain the element', () => {
+    expect(diagnose({ container: document.getElementById('other') })).toEqual([
+      expect.stringContaining('`container` <div#other> of `Sticky` does not'),
+    ]);
+  });
+
+  it('warns about ancestors that break the position or the container', () => {
+    const wrapper = document.getElementById('wrapper')!;
+    wrapper.style.transform = 'scale(1)';
+    wrapper.style.overflow = 'hidden';
+    expect(diagnose()).toEqual([
+      expect.stringContaining('<div#wrapper> of `Sticky` has `transform'),
+      expect.stringContaining(
+        '<div#wrapper> of `Sticky` has `overflow: hidden',
+      ),
+    ]);
+    expect(diagnose({ usesFixedPosition: false })).toHaveLength(1);
+  });
+
+  it('warns about a container that is shorter than the element', () => {
+    expect(
+      diagnose({ stickyRect: createRect(100), containerRect: createRect(50) }),
+    ).toEqual([expect.stringContaining('(50px) is shorter')]);
+  });
+});
@@ -0,0 +1,149 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { StickyProvider, useSticky, useStickyScrollUp } from '../index';
+import { IUseStickyOptions } from '../hooks';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+const StickyHeader = ({ id }: { id: string }) => {
+  const {
+    placeholderRef,
+    stickyRef,
+    placeholderStyle,
+    stickyStyle,
+  } = useStickyScrollUp();
+  return (
+    <div ref={placeholderRef} style={placeholderStyle}>
+      <div ref={stickyRef} id={id} style={stickyStyle} />
+    </div>
+  );
+};
+
+const StickyBar = ({
+  id,
+  onRender,
+  ...options
+}: IUseStickyOptions & {
+  id: string;
+  onRender?: (isSticky: boolean) => void;
+}) => {
+  const {
+    placeholderRef,
+    stickyRef,
+    placeholderStyle,
+    stickyStyle,
+    isSticky,
+  } = useSticky(options);
+  if (onRender) {
+    onRender(isSticky);
+  }
+  return (
+    <div ref={placeholderRef} style={placeholderStyle}>
+      <div ref={stickyRef} id={id} style={stickyStyle} />
+    </div>
+  );
+};
+
+describe('hooks', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  it('sticks and docks with useSticky', async () => {
+    const Bar = () => {
+      const container = React.useRef<HTMLDivElement>(null);
+      return (
+        <div ref={container} id="container">
+          <StickyBar id="sticky" container={container} onRender={onRender} />
+        </div>
+      );
+    };
+    const onRender = jest.fn();
+    ReactDOM.render(
+      <StickyProvider>
+        <Bar />
+      </StickyProvider>,
+      root,
+    );
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(document.getElementById('container')!, {
+      top: 100,
+      height: 1000,
+    });
+    viewport.setRect(sticky, { top: 100, height: 50 });
+    await viewport.update();
+    expect(onRender).toHaveBeenLastCalledWith(false);
+
+    await viewport.scrollTo(200);
+    expect(onRender).toHaveBeenLastCalledWith(true);
+    expect(sticky.style.position).toBe('fixed');
+    expect(sticky.style.top).toBe('0px');
+
+    await viewport.scrollTo(1200);
+    expect(sticky.style.position).toBe('absolute');
+    expect(sticky.style.top).toBe('950px');
+  });
+
+  it('stacks useSticky below useStickyScrollUp', async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <StickyHeader id="header" />
+        <StickyBar id="sticky" stacked />
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(header, { top: 0, height: 50 });
+    viewport.setRect(sticky, { top: 50, height: 50 });
+    await viewport.update();
+
+    await viewport.scrollTo(1000);
+    expect(header.style.position).toBe('absolute');
+    expect(sticky.style.position).toBe('fixed');
+    expect(sticky.style.top).toBe('0px');
+
+    // the header reveals when scrolling up and pushes the element down
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('fixed');
+    expect(sticky.style.top).toBe('50px');
+  });
+
+  it('keeps the hooks aligned when scrolling horizontally', async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <StickyHeader id="header" />
+        <StickyBar id="sticky" />
+      </StickyProvider>,
+      root,
+    );
+    const header = document.getElementById('header')!;
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(header, { top: 0, left: 20, height: 50 });
+    viewport.setRect(sticky, { top: 100, left: 20, height: 50 });
+    await viewport.update();
+
+    await viewport.scrollTo(1000);
+    expect(sticky.style.position).toBe('fixed');
+    expect(sticky.style.left).toBe('20px');
+
+    await viewport.scrollTo({ x: 50 });
+    expect(sticky.style.left).toBe('-30px');
+
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('fixed');
+    expect(header.style.left).toBe('-30px');
+  });
+});
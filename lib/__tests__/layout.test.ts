@@ -0,0 +1,163 @@
+import { IRect, IDimensions } from 'react-viewport-utils';
+import {
+  calcStickyLayout,
+  calcScrollUpLayout,
+  calcSectionHeaderLayout,
+  calcCollapseLayout,
+  createEmptyScroll,
+  calcNextScroll,
+  IStickyLayoutOptions,
+} from '../index';
+
+const createRect = (top: number, height: number, width = 100): IRect => ({
+  top,
+  bottom: top + height,
+  left: 0,
+  right: width,
+  width,
+  height,
+});
+
+const dimensions = {
+  width: 1000,
+  height: 500,
+  clientWidth: 1000,
+  clientHeight: 500,
+  outerWidth: 1000,
+  outerHeight: 500,
+  documentWidth: 1000,
+  documentHeight: 5000,
+} as IDimensions;
+
+const options: IStickyLayoutOptions = {
+  hasContainer: true,
+  overflowScroll: 'end',
+  offsetTop: 0,
+  stickyOffset: { top: 0, height: 0 },
+};
+
+const scrollTo = (...positions: number[]) =>
+  positions.reduce(
+    (scroll, y) => calcNextScroll(scroll, 0, y),
+    createEmptyScroll(),
+  );
+
+describe('calcStickyLayout', () => {
+  const calc = (containerTop: number, edge: 'top' | 'bottom' = 'top') =>
+    calcStickyLayout({
+      edge,
+      stickyRect: createRect(containerTop, 50),
+      containerRect: createRect(containerTop, 300),
+      scroll: scrollTo(100),
+      dimensions,
+      disableHardwareAcceleration: true,
+      options,
+    });
+
+  it('keeps the element within the flow before the container is reached', () => {
+    const layout = calc(10);
+    expect(layout.styles).toEqual({ position: 'absolute', top: 0 });
+    expect(layout.isSticky).toBe(false);
+    expect(layout.isDocked).toBe(false);
+  });
+
+  it('sticks to the offset once the container is reached', () => {
+    const layout = calc(-100);
+    expect(layout.styles).toEqual({ position: 'fixed', top: 0 });
+    expect(layout.isSticky).toBe(true);
+  });
+
+  it('tracks the progress through the container', () => {
+    expect(calc(10).progress).toBe(0);
+    expect(calc(-100).progress).toBe(0.4);
+    expect(calc(-280).progress).toBe(1);
+  });
+
+  it('docks the element to the bottom of the container', () => {
+    const layout = calc(-280);
+    expect(layout.styles).toEqual({ position: 'absolute', top: 250 });
+    expect(layout.isSticky).toBe(false);
+    expect(layout.isDocked).toBe(true);
+  });
+
+  it('maps the styles to the bottom edge', () => {
+    const layout = calc(300, 'bottom');
+    expect(layout.styles).toEqual({ position: 'fixed', bottom: 0 });
+    expect(layout.isSticky).toBe(true);
+  });
+});
+
+describe('calcScrollUpLayout', () => {
+  const calc = (stickyTop: number, scrollPositions: number[], up = 0) =>
+    calcScrollUpLayout({
+      stickyRect: createRect(stickyTop, 50),
+      placeholderRect: createRect(-scrollPositions[0], 50),
+      scroll: scrollTo(...scrollPositions),
+      defaultOffsetTop: 0,
+      disableHardwareAcceleration: true,
+      tolerance: { up, down: 0 },
+    });
+
+  it('places the element above the viewport when the direction turns', () => {
+    const layout = calc(-1000, [1000, 990]);
+    expect(layout.styles).toEqual({ position: 'absolute', top: 940 });
+    expect(layout.isSticky).toBe(false);
+  });
+
+  it('keeps the element hidden within the tolerance', () => {
+    const layout = calc(-1000, [1000, 990], 100);
+    expect(layout.styles).toEqual({ position: 'absolute', top: 840 });
+  });
+
+  it('sticks once the element is fully visible', () => {
+    const layout = calc(10, [1000, 990, 930]);
+    expect(layout.styles).toEqual({ position: 'fixed', top: 0 });
+    expect(layout.isSticky).toBe(true);
+  });
+});
+
+describe('calcSectionHeaderLayout', () => {
+  it('pushes the header out by the bottom of its section', () => {
+    const layout = calcSectionHeaderLayout({
+      sectionRect: createRect(-180, 200),
+      placeholderRect: createRect(-180, 40),
+      headerHeight: 40,
+      offsetTop: 0,
+    });
+    expect(layout.styles).toEqual({ position: 'absolute', top: 160 });
+    expect(layout.isSticky).toBe(false);
+    expect(layout.isActive).toBe(true);
+  });
+});
+
+describe('calcCollapseLayout', () => {
+  const calc = (placeholderTop: number) =>
+    calcCollapseLayout({
+      placeholderRect: createRect(placeholderTop, 300),
+      expandedHeight: 300,
+      collapsedHeight: 100,
+      offsetTop: 0,
+      disableHardwareAcceleration: true,
+    });
+
+  it('keeps the element expanded before the offset is reached', () => {
+    const layout = calc(10);
+    expect(layout.styles).toEqual({ position: 'absolute', top: 0 });
+    expect(layout.collapseProgress).toBe(0);
+    expect(layout.height).toBe(300);
+  });
+
+  it('shrinks the element by the distance scrolled', () => {
+    const layout = calc(-50);
+    expect(layout.styles).toEqual({ position: 'fixed', top: 0 });
+    expect(layout.collapseProgress).toBe(0.25);
+    expect(layout.height).toBe(250);
+  });
+
+  it('stays sticky with the collapsed height', () => {
+    const layout = calc(-1000);
+    expect(layout.isSticky).toBe(true);
+    expect(layout.collapseProgress).toBe(1);
+    expect(layout.height).toBe(100);
+  });
+});
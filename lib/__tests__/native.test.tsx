@@ -0,0 +1,85 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import NativeStickyObserver from '../NativeStickyObserver';
+
+describe('NativeStickyObserver', () => {
+  let root: HTMLDivElement;
+  let rootMargins: string[];
+  const originalIntersectionObserver = (window as any).IntersectionObserver;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    rootMargins = [];
+    (window as any).IntersectionObserver = class {
+      constructor(_: any, { rootMargin }: IntersectionObserverInit) {
+        rootMargins.push(rootMargin!);
+      }
+      observe() {}
+      disconnect() {}
+    };
+    root = document.createElement('div');
+    document.body.appendChild(root);
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    (window as any).IntersectionObserver = originalIntersectionObserver;
+    jest.useRealTimers();
+  });
+
+  const Observer = ({ offset }: { offset: number }) => {
+    const stickyRef = React.useRef<HTMLDivElement>(null);
+    const sentinelRef = React.useRef<HTMLDivElement>(null);
+    const [isMounted, setMounted] = React.useState(false);
+    React.useEffect(() => setMounted(true), []);
+    return (
+      <div>
+        <div ref={sentinelRef} />
+        <div ref={stickyRef} />
+        {isMounted && (
+          <NativeStickyObserver
+            edge="top"
+            offset={offset}
+            stickyRef={stickyRef}
+            sentinelRef={sentinelRef}
+            onChange={() => {}}
+            onResize={() => {}}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const render = (offset: number) =>
+    act(() => {
+      ReactDOM.render(<Observer offset={offset} />, root);
+    });
+
+  it('recreates the edge observers once the offset settled', () => {
+    render(0);
+    expect(rootMargins).toEqual([
+      '0px 0px 0px 0px',
+      '0px 0px 0px 0px',
+      '700px',
+    ]);
+
+    // e.g. a `StickyScrollUp` above reveals
+    for (let offset = 1; offset <= 50; offset++) {
+      render(offset);
+    }
+    expect(rootMargins).toHaveLength(3);
+
+    jest.advanceTimersByTime(100);
+    expect(rootMargins.slice(3)).toEqual([
+      '-50px 0px 0px 0px',
+      '-50px 0px 0px 0px',
+    ]);
+
+    // changes below a pixel do not change the margin
+    render(50.2);
+    jest.advanceTimersByTime(100);
+    expect(rootMargins).toHaveLength(5);
+  });
+});
@@ -28,4 +28,18 @@ describe('server side rendering', () => {
       '<div style="position:relative"><div style="width:inherit"><div></div></div></div><div style="position:relative"><div style="width:inherit"><div></div></div></div>',
     );
   });
+
+  it('should reserve the default size and render sticky from the start', () => {
+    expect(
+      ReactDOMServer.renderToString(
+        <StickyProvider>
+          <Sticky defaultSize={{ height: 50 }} defaultSticky>
+            <div />
+          </Sticky>
+        </StickyProvider>,
+      ),
+    ).toBe(
+      '<div style="height:50px;position:relative"><div style="width:inherit;top:0;position:fixed"><div></div></div></div>',
+    );
+  });
 });
@@ -0,0 +1,131 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import { StickyScrollUp, Sticky, StickyProvider } from '../index';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('viewport driver', () => {
+  let root: HTMLDivElement;
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    ReactDOM.unmountComponentAtNode(root);
+    document.body.removeChild(root);
+    viewport.restore();
+  });
+
+  it('drives the styles and render args of Sticky', async () => {
+    const container = React.createRef<HTMLDivElement>();
+    const renderArgs: Array<{
+      isSticky: boolean;
+      isDockedToBottom: boolean;
+    }> = [];
+    ReactDOM.render(
+      <StickyProvider>
+        <div ref={container}>
+          <Sticky container={container} stickyProps={{ id: 'sticky' }}>
+            {(args) => {
+              renderArgs.push(args);
+              return <div />;
+            }}
+          </Sticky>
+        </div>
+      </StickyProvider>,
+      root,
+    );
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(container, { top: 100, height: 1000 });
+    viewport.setRect(sticky, { top: 100, height: 50 });
+    await viewport.update();
+    expect(renderArgs[renderArgs.length - 1].isSticky).toBe(false);
+
+    await viewport.scrollTo(200);
+    expect(renderArgs[renderArgs.length - 1].isSticky).toBe(true);
+    expect(sticky.style.position).toBe('fixed');
+    expect(sticky.style.top).toBe('0px');
+
+    await viewport.scrollTo(1200);
+    expect(renderArgs[renderArgs.length - 1].isDockedToBottom).toBe(true);
+    expect(sticky.style.position).toBe('absolute');
+  });
+
+  it('drives StickyScrollUp by the scroll direction', async () => {
+    const onStickyChange = jest.fn();
+    ReactDOM.render(
+      <StickyProvider>
+        <StickyScrollUp
+          onStickyChange={onStickyChange}
+          stickyProps={{ id: 'sticky' }}
+        >
+          <div />
+        </StickyScrollUp>
+      </StickyProvider>,
+      root,
+    );
+    viewport.setRect(document.getElementById('sticky')!, {
+      top: 0,
+      height: 50,
+    });
+    await viewport.update();
+
+    await viewport.scrollTo(1000);
+    expect(onStickyChange).not.toHaveBeenCalled();
+
+    // the element is placed above the viewport once the direction changes
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-100);
+    expect(onStickyChange).toHaveBeenLastCalledWith(true);
+
+    await viewport.scrollTo(0);
+    expect(onStickyChange).toHaveBeenLastCalledWith(false);
+  });
+
+  it('measures elements positioned from the right edge', async () => {
+    ReactDOM.render(
+      <StickyProvider>
+        <Sticky edge="right" stickyProps={{ id: 'sticky' }}>
+          <div />
+        </Sticky>
+      </StickyProvider>,
+      root,
+    );
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(sticky, { top: 100, left: 1200, width: 50, height: 50 });
+    await viewport.update();
+    expect(sticky.style.position).toBe('fixed');
+    expect(sticky.style.right).toBe('0px');
+    expect(sticky.getBoundingClientRect().left).toBe(974);
+
+    await viewport.scrollTo({ x: 300 });
+    expect(sticky.style.position).not.toBe('fixed');
+    expect(sticky.getBoundingClientRect().left).toBe(900);
+  });
+
+  it('runs pending timeouts instead of waiting for them', async () => {
+    const timeout = jest.fn();
+    window.setTimeout(timeout, 10000);
+    await viewport.update();
+    expect(timeout).toHaveBeenCalledTimes(1);
+
+    const cleared = jest.fn();
+    window.clearTimeout(window.setTimeout(cleared, 100));
+    await viewport.update();
+    expect(cleared).not.toHaveBeenCalled();
+  });
+
+  it('scrolls horizontally', async () => {
+    await viewport.scrollTo(100);
+    await viewport.scrollTo({ x: 200 });
+    expect(window.pageXOffset).toBe(200);
+    expect(window.pageYOffset).toBe(100);
+
+    await viewport.scrollBy({ x: -50, y: 10 });
+    expect(window.pageXOffset).toBe(150);
+    expect(window.pageYOffset).toBe(110);
+  });
+});
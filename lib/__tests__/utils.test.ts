@@ -0,0 +1,158 @@
+import { IRect, IDimensions } from 'react-viewport-utils';
+import {
+  toEdgeRect,
+  toEdgeScroll,
+  toEdgeDimensions,
+  fromEdgePositionStyles,
+  toAlignedPositionStyles,
+  shallowEqualPositionStyles,
+  createEmptyScroll,
+  calcNextScroll,
+} from '../utils';
+import { calcStickyLayout } from '../layout';
+
+const dimensions = {
+  width: 1000,
+  height: 500,
+  clientWidth: 1000,
+  clientHeight: 500,
+  outerWidth: 1000,
+  outerHeight: 500,
+  documentWidth: 4000,
+  documentHeight: 5000,
+} as IDimensions;
+
+// 50x20 at 10px from the top and 900px from the left of the viewport
+const rect: IRect = {
+  top: 10,
+  bottom: 30,
+  left: 900,
+  right: 950,
+  width: 50,
+  height: 20,
+};
+
+describe('edge mapping', () => {
+  it('keeps the rect of the top edge', () => {
+    expect(toEdgeRect(rect, 'top', dimensions)).toBe(rect);
+  });
+
+  it('mirrors the rect vertically for the bottom edge', () => {
+    expect(toEdgeRect(rect, 'bottom', dimensions)).toEqual({
+      ...rect,
+      top: 470,
+      bottom: 490,
+    });
+  });
+
+  it('swaps the axes of the rect for the left edge', () => {
+    expect(toEdgeRect(rect, 'left', dimensions)).toEqual({
+      top: 900,
+      bottom: 950,
+      height: 50,
+      left: 10,
+      right: 30,
+      width: 20,
+    });
+  });
+
+  it('swaps and mirrors the axes of the rect for the right edge', () => {
+    expect(toEdgeRect(rect, 'right', dimensions)).toEqual({
+      top: 50,
+      bottom: 100,
+      height: 50,
+      left: 10,
+      right: 30,
+      width: 20,
+    });
+  });
+
+  it('maps the scroll position and direction to each edge', () => {
+    const scroll = calcNextScroll(
+      calcNextScroll(createEmptyScroll(), 0, 0),
+      30,
+      5,
+    );
+    expect(toEdgeScroll(scroll, 'top')).toBe(scroll);
+    expect(toEdgeScroll(scroll, 'bottom')).toMatchObject({
+      x: 30,
+      y: -5,
+      isScrollingUp: true,
+      isScrollingDown: false,
+    });
+    expect(toEdgeScroll(scroll, 'left')).toMatchObject({
+      x: 5,
+      y: 30,
+      isScrollingUp: false,
+      isScrollingDown: true,
+    });
+    expect(toEdgeScroll(scroll, 'right')).toMatchObject({
+      x: 5,
+      y: -30,
+      isScrollingUp: true,
+      isScrollingDown: false,
+    });
+  });
+
+  it('swaps the dimensions for horizontal edges', () => {
+    expect(toEdgeDimensions(dimensions, 'bottom')).toBe(dimensions);
+    expect(toEdgeDimensions(dimensions, 'right')).toMatchObject({
+      clientWidth: 500,
+      clientHeight: 1000,
+      documentWidth: 5000,
+      documentHeight: 4000,
+    });
+  });
+
+  it('maps the position styles back to the edge', () => {
+    const styles = { position: 'fixed' as const, top: 10, willChange: 'top' };
+    expect(fromEdgePositionStyles(styles, 'top')).toEqual(styles);
+    expect(fromEdgePositionStyles(styles, 'right')).toEqual({
+      position: 'fixed',
+      right: 10,
+      willChange: 'top',
+    });
+  });
+
+  it('sticks an element to the right edge of the viewport', () => {
+    const layout = calcStickyLayout({
+      edge: 'right',
+      stickyRect: { ...rect, left: 1000, right: 1050 },
+      containerRect: { ...rect, left: 1000, right: 1050 },
+      scroll: calcNextScroll(createEmptyScroll(), 100, 0),
+      dimensions,
+      disableHardwareAcceleration: true,
+      options: {
+        hasContainer: false,
+        overflowScroll: 'end',
+        offsetTop: 0,
+        stickyOffset: { top: 0, height: 0 },
+      },
+    });
+    expect(layout.styles).toEqual({ position: 'fixed', right: 0 });
+    expect(layout.isSticky).toBe(true);
+  });
+
+  it('aligns fixed styles with the placeholder on the other axis', () => {
+    const fixed = { position: 'fixed' as const, left: 0 };
+    expect(toAlignedPositionStyles(fixed, 'left', rect)).toEqual({
+      ...fixed,
+      top: 10,
+    });
+    expect(
+      toAlignedPositionStyles({ position: 'fixed', top: 0 }, 'top', rect),
+    ).toEqual({ position: 'fixed', top: 0, left: 900 });
+    const absolute = { position: 'absolute' as const, top: 0 };
+    expect(toAlignedPositionStyles(absolute, 'top', rect)).toBe(absolute);
+  });
+});
+
+describe('shallowEqualPositionStyles', () => {
+  it('compares the width of the position styles', () => {
+    const styles = { position: 'fixed' as const, top: 0, width: 100 };
+    expect(shallowEqualPositionStyles(styles, { ...styles })).toBe(true);
+    expect(shallowEqualPositionStyles(styles, { ...styles, width: 90 })).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { createSticky, createStickyScrollUp } from '../vanilla';
+import { createViewportDriver, IViewportDriver } from '../testing';
+
+describe('vanilla api', () => {
+  let viewport: IViewportDriver;
+
+  beforeEach(() => {
+    document.body.innerHTML =
+      '<div id="header"></div><div id="container"><div id="sticky"></div></div>';
+    viewport = createViewportDriver({ height: 500, documentHeight: 3000 });
+  });
+
+  afterEach(() => {
+    viewport.restore();
+    document.body.innerHTML = '';
+  });
+
+  it('stacks sticky elements and restores them on destroy', async () => {
+    const header = document.getElementById('header')!;
+    const container = document.getElementById('container')!;
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(header, { top: 0, height: 50 });
+    viewport.setRect(container, { top: 100, height: 1000 });
+    viewport.setRect(sticky, { top: 100, height: 50 });
+    const onChange = jest.fn();
+    const headerHandle = createStickyScrollUp(header);
+    const stickyHandle = createSticky(sticky, { container, onChange });
+
+    await viewport.scrollTo(200);
+    expect(sticky.style.position).toBe('fixed');
+    expect(sticky.style.top).toBe('0px');
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ isSticky: true }),
+    );
+
+    // the header appears when scrolling up and pushes the element down
+    await viewport.scrollBy(-10);
+    await viewport.scrollBy(-60);
+    expect(header.style.position).toBe('fixed');
+    expect(sticky.style.top).toBe('50px');
+
+    stickyHandle.destroy();
+    headerHandle.destroy();
+    expect(sticky.style.position).toBe('');
+    expect(sticky.parentElement).toBe(container);
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ isSticky: false }),
+    );
+  });
+
+  it('follows the horizontal scroll position while sticky', async () => {
+    const container = document.getElementById('container')!;
+    const sticky = document.getElementById('sticky')!;
+    viewport.setRect(container, { top: 100, left: 20, height: 1000 });
+    viewport.setRect(sticky, { top: 100, left: 20, height: 50 });
+    const stickyHandle = createSticky(sticky, { container });
+
+    await viewport.scrollTo(200);
+    expect(sticky.style.position).toBe('fixed');
+    expect(sticky.style.left).toBe('20px');
+
+    window.scrollTo(50, 200);
+    await viewport.scrollTo(200);
+    expect(sticky.style.left).toBe('-30px');
+    expect(sticky.getBoundingClientRect().left).toBe(
+      sticky.parentElement!.getBoundingClientRect().left,
+    );
+
+    stickyHandle.destroy();
+  });
+
+  it('restores the inline styles of the element once disabled', async () => {
+    const sticky = document.getElementById('sticky')!;
+    sticky.style.width = '300px';
+    sticky.style.position = 'relative';
+    viewport.setRect(sticky, { top: 100, height: 50 });
+    const stickyHandle = createSticky(sticky);
+
+    await viewport.scrollTo(200);
+    expect(sticky.style.position).toBe('fixed');
+    expect(sticky.style.width).toBe('1024px');
+    expect(sticky.parentElement!.style.height).toBe('50px');
+
+    stickyHandle.disable();
+    expect(sticky.style.position).toBe('relative');
+    expect(sticky.style.width).toBe('300px');
+    expect(sticky.style.top).toBe('');
+    expect(sticky.parentElement!.style.height).toBe('');
+
+    stickyHandle.enable();
+    await viewport.update();
+    expect(sticky.style.position).toBe('fixed');
+
+    stickyHandle.destroy();
+    expect(sticky.style.position).toBe('relative');
+    expect(sticky.style.width).toBe('300px');
+  });
+});
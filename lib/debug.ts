@@ -0,0 +1,70 @@
+import { IRect, IScroll, IDimensions } from 'react-viewport-utils';
+
+import {
+  IPositionStyles,
+  IStickyOffset,
+  OverflowScrollType,
+  TStickyEdge,
+} from './types';
+
+export interface IStickyDebugInfo {
+  name: string;
+  edge: TStickyEdge;
+  // within a scroll container all rects are relative to its visible area
+  origin: { top: number; left: number } | null;
+  stickyRect?: IRect;
+  placeholderRect?: IRect;
+  containerRect?: IRect;
+  scroll: IScroll;
+  dimensions: IDimensions;
+  offsetTop: number;
+  stickyOffset: IStickyOffset;
+  overflowScroll: OverflowScrollType;
+  appliedOverflowScroll: OverflowScrollType;
+  state: { [name: string]: boolean };
+  styles: IPositionStyles;
+}
+
+type TDebugListener = (entries: IStickyDebugInfo[]) => void;
+
+// sticky components publish their layout in development only and only while a
+// `StickyDebugger` listens, it shows them with their next update
+const entries = new Map<object, IStickyDebugInfo>();
+let listeners: TDebugListener[] = [];
+
+const getEntries = () => {
+  const values: IStickyDebugInfo[] = [];
+  entries.forEach((info) => values.push(info));
+  return values;
+};
+
+const notify = () => {
+  const values = getEntries();
+  listeners.forEach((listener) => listener(values));
+};
+
+// allows the components to skip building the debug info on every update
+export const hasDebugListeners = () => listeners.length > 0;
+
+export const publishDebugInfo = (key: object, info: IStickyDebugInfo) => {
+  entries.set(key, info);
+  notify();
+};
+
+export const removeDebugInfo = (key: object) => {
+  if (entries.delete(key)) {
+    notify();
+  }
+};
+
+export const subscribeDebugInfo = (listener: TDebugListener) => {
+  listeners.push(listener);
+  listener(getEntries());
+  return () => {
+    listeners = listeners.filter((l) => l !== listener);
+    // entries are not kept up to date without listeners
+    if (listeners.length === 0) {
+      entries.clear();
+    }
+  };
+};
@@ -0,0 +1,172 @@
+import { IRect } from 'react-viewport-utils';
+
+export interface IStickySetup {
+  // the component name used within the messages
+  name: string;
+  placeholder: HTMLElement | null;
+  container?: HTMLElement | null;
+  scrollContainer?: HTMLElement | null;
+  hasProvider?: boolean;
+  // whether the element is positioned with `position: fixed` while sticky
+  usesFixedPosition: boolean;
+  stickyRect?: IRect;
+  containerRect?: IRect;
+}
+
+const describeElement = (element: HTMLElement) => {
+  const id = element.id ? `#${element.id}` : '';
+  const className =
+    typeof element.className === 'string' && element.className.trim()
+      ? `.${element.className.trim().split(/\s+/).join('.')}`
+      : '';
+  return `<${element.tagName.toLowerCase()}${id}${className}>`;
+};
+
+// all ancestors of the element up to the element that scrolls
+const getAncestors = (
+  element: HTMLElement,
+  scrollContainer?: HTMLElement | null,
+) => {
+  const ancestors: HTMLElement[] = [];
+  let node = element.parentElement;
+  while (
+    node &&
+    node !== scrollContainer &&
+    node !== document.body &&
+    node !== document.documentElement
+  ) {
+    ancestors.push(node);
+    node = node.parentElement;
+  }
+  return ancestors;
+};
+
+// these properties make an element the containing block of its fixed descendants
+const getFixedContainingBlockProperty = (style: CSSStyleDeclaration) => {
+  if (style.transform && style.transform !== 'none') {
+    return `transform: ${style.transform}`;
+  }
+  if (style.filter && style.filter !== 'none') {
+    return `filter: ${style.filter}`;
+  }
+  if (style.perspective && style.perspective !== 'none') {
+    return `perspective: ${style.perspective}`;
+  }
+  if (/transform|filter|perspective/.test(style.willChange || '')) {
+    return `will-change: ${style.willChange}`;
+  }
+  const contain = style.getPropertyValue('contain');
+  if (/paint|layout|strict|content/.test(contain)) {
+    return `contain: ${contain}`;
+  }
+  return null;
+};
+
+const getOverflow = (style: CSSStyleDeclaration) =>
+  [style.overflowY, style.overflowX, style.overflow].find(
+    (value) => Boolean(value) && value !== 'visible',
+  );
+
+/**
+ * Checks the DOM around a sticky component for setups that are known to break
+ * the positioning and returns a message for each problem that was found.
+ */
+export const diagnoseStickySetup = ({
+  name,
+  placeholder,
+  container,
+  scrollContainer,
+  hasProvider,
+  usesFixedPosition,
+  stickyRect,
+  containerRect,
+}: IStickySetup): string[] => {
+  const messages: string[] = [];
+  if (!hasProvider) {
+    messages.push(
+      `react-stickup: \`${name}\` is rendered without a \`StickyProvider\`. Stacked sticky elements, the \`scrollContainer\` and the \`media\` of the provider will not apply to it. Wrap the application (or the part that contains the sticky elements) with \`<StickyProvider>\`.`,
+    );
+  }
+  if (!placeholder) {
+    return messages;
+  }
+  if (
+    container &&
+    container !== placeholder &&
+    !container.contains(placeholder)
+  ) {
+    messages.push(
+      `react-stickup: the \`container\` ${describeElement(
+        container,
+      )} of \`${name}\` does not contain the sticky element, it will be docked as soon as the container leaves the viewport. Pass the reference of an ancestor of the \`${name}\` component instead.`,
+    );
+  }
+  let isWithinContainer = Boolean(container) && container !== placeholder;
+  getAncestors(placeholder, scrollContainer).forEach((ancestor) => {
+    if (ancestor === container) {
+      isWithinContainer = false;
+    }
+    const style = window.getComputedStyle(ancestor);
+    const property = usesFixedPosition
+      ? getFixedContainingBlockProperty(style)
+      : null;
+    if (property) {
+      messages.push(
+        `react-stickup: the ancestor ${describeElement(
+          ancestor,
+        )} of \`${name}\` has \`${property}\`, which makes \`position: fixed\` relative to that element instead of the viewport. Remove the property, move the \`${name}\` component outside of the element or use \`positioning="transform"\`.`,
+      );
+    }
+    const overflow = getOverflow(style);
+    const isScrollable =
+      (overflow === 'auto' || overflow === 'scroll') &&
+      ancestor.scrollHeight > ancestor.clientHeight;
+    if (isScrollable) {
+      messages.push(
+        `react-stickup: the ancestor ${describeElement(
+          ancestor,
+        )} of \`${name}\` has \`overflow: ${overflow}\`, scrolling within this element does not update the sticky element. Pass its reference as \`scrollContainer\` to the \`StickyProvider\` or remove the property.`,
+      );
+    } else if (overflow && overflow !== 'auto' && isWithinContainer) {
+      messages.push(
+        `react-stickup: the ancestor ${describeElement(
+          ancestor,
+        )} of \`${name}\` has \`overflow: ${overflow}\` and lies between the sticky element and its \`container\`, the sticky element is cut off as soon as it is docked to the end of the container. Remove the property or use this element as the \`container\`.`,
+      );
+    }
+  });
+  if (
+    stickyRect &&
+    containerRect &&
+    container &&
+    container !== placeholder &&
+    containerRect.height < stickyRect.height
+  ) {
+    messages.push(
+      `react-stickup: the \`container\` ${describeElement(
+        container,
+      )} of \`${name}\` (${Math.round(
+        containerRect.height,
+      )}px) is shorter than the sticky element (${Math.round(
+        stickyRect.height,
+      )}px), therefore the element is docked right away and will never stick. Make sure the container wraps the content the element should stick along.`,
+    );
+  }
+  return messages;
+};
+
+/**
+ * Warns about every problem of the setup that was not reported before and
+ * returns all reported messages.
+ */
+export const warnStickySetup = (
+  setup: IStickySetup,
+  reportedMessages: string[] = [],
+): string[] =>
+  diagnoseStickySetup(setup).reduce((reported, message) => {
+    if (reported.indexOf(message) === -1) {
+      console.warn(message);
+      return reported.concat(message);
+    }
+    return reported;
+  }, reportedMessages);
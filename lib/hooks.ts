@@ -0,0 +1,468 @@
+import * as React from 'react';
+import {
+  useViewportEffect,
+  IRect,
+  IScroll,
+  IDimensions,
+} from 'react-viewport-utils';
+
+import { useStickyContext } from './StickyProvider';
+import ScrollContainerObserver, { IViewport } from './ScrollContainerObserver';
+import {
+  IPositionStyles,
+  IStickyOffset,
+  OverflowScrollType,
+  TStickyEdge,
+  TScrollTolerance,
+  TPositioning,
+} from './types';
+import {
+  shallowEqualPositionStyles,
+  getScrollContainerOrigin,
+  toScrollContainerRect,
+  toAlignedPositionStyles,
+  toScrollContainerPositionStyles,
+  toTransformPositionStyles,
+  toCSSPositionStyles,
+  resolveScrollTolerance,
+} from './utils';
+import { calcStickyLayout, calcScrollUpLayout } from './layout';
+
+export interface IUseStickyOptions {
+  /**
+   * The reference to the container to stick into. If this is not set, the element will be sticky regardless how far the user scrolls down.
+   */
+  container?: React.RefObject<any>;
+  /**
+   * Defines how the sticky element should react in case its bigger than the viewport. See the `overflowScroll` property of the `Sticky` component.
+   */
+  overflowScroll?: OverflowScrollType;
+  /**
+   * The edge of the viewport the element sticks to.
+   */
+  edge?: TStickyEdge;
+  /**
+   * An offset to create a padding between the browser window and the sticky element when sticky. It applies to the edge defined by `edge`.
+   */
+  defaultOffset?: number;
+  /**
+   * Adds the element to the stack of sticky elements of the `StickyProvider`. Only used if `edge` is set to `top`.
+   */
+  stacked?: boolean;
+  /**
+   * Defines how the sticky element is moved, either with `position` (default) or `transform`. See the `positioning` property of the components.
+   */
+  positioning?: TPositioning;
+  /**
+   * Allows to disable all sticky behavior.
+   */
+  disabled?: boolean;
+  /**
+   * Allows to disable the hardware acceleration while the element is near to the viewport.
+   */
+  disableHardwareAcceleration?: boolean;
+}
+
+export interface IUseStickyScrollUpOptions {
+  /**
+   * The distance in pixels the user has to scroll against the current direction before the element starts to reveal or hide. See the `tolerance` property of the `StickyScrollUp` component.
+   */
+  tolerance?: TScrollTolerance;
+  /**
+   * Defines how the sticky element is moved, either with `position` (default) or `transform`. See the `positioning` property of the components.
+   */
+  positioning?: TPositioning;
+  /**
+   * Allows to disable all sticky behavior.
+   */
+  disabled?: boolean;
+  /**
+   * Allows to disable the hardware acceleration while the element is near to the viewport.
+   */
+  disableHardwareAcceleration?: boolean;
+}
+
+interface IStickyHookResult {
+  placeholderRef: React.RefObject<any>;
+  stickyRef: React.RefObject<any>;
+  placeholderStyle: React.CSSProperties;
+  stickyStyle: React.CSSProperties;
+}
+
+export interface IUseStickyResult extends IStickyHookResult {
+  isSticky: boolean;
+  isDockedToBottom: boolean;
+  isDockedToTop: boolean;
+  isNearToViewport: boolean;
+  appliedOverflowScroll: OverflowScrollType;
+}
+
+export interface IUseStickyScrollUpResult extends IStickyHookResult {
+  isSticky: boolean;
+  isNearToViewport: boolean;
+}
+
+interface ILayoutSnapshot {
+  stickyRect?: IRect;
+  containerRect?: IRect;
+  placeholderRect?: IRect;
+}
+
+interface IStickyState {
+  styles: IPositionStyles;
+  width: number | null;
+  height: number | null;
+  isSticky: boolean;
+  isDocked: boolean;
+  isNearToViewport: boolean;
+  appliedOverflowScroll: OverflowScrollType;
+}
+
+const emptyStickyOffset: IStickyOffset = { top: 0, height: 0 };
+
+const initialState: IStickyState = {
+  styles: {},
+  width: null,
+  height: null,
+  isSticky: false,
+  isDocked: false,
+  isNearToViewport: false,
+  appliedOverflowScroll: 'end',
+};
+
+const shallowEqualState = (a: IStickyState, b: IStickyState) =>
+  shallowEqualPositionStyles(a.styles, b.styles) &&
+  a.width === b.width &&
+  a.height === b.height &&
+  a.isSticky === b.isSticky &&
+  a.isDocked === b.isDocked &&
+  a.isNearToViewport === b.isNearToViewport &&
+  a.appliedOverflowScroll === b.appliedOverflowScroll;
+
+const measure = (
+  refs: {
+    sticky: React.RefObject<HTMLElement>;
+    placeholder: React.RefObject<HTMLElement>;
+    container?: React.RefObject<HTMLElement>;
+  },
+  scrollContainer?: HTMLElement | null,
+): ILayoutSnapshot => {
+  // within a scroll container all rects are relative to its visible area
+  const origin = scrollContainer
+    ? getScrollContainerOrigin(scrollContainer)
+    : null;
+  const placeholderRect = refs.placeholder.current?.getBoundingClientRect();
+  return {
+    stickyRect: toScrollContainerRect(
+      refs.sticky.current?.getBoundingClientRect(),
+      origin,
+    ),
+    placeholderRect: toScrollContainerRect(placeholderRect, origin),
+    containerRect: toScrollContainerRect(
+      refs.container
+        ? refs.container.current?.getBoundingClientRect()
+        : placeholderRect,
+      origin,
+    ),
+  };
+};
+
+// observes either the window or the scroll container of the `StickyProvider`
+const useStickyObserver = (
+  handleUpdate: (viewport: IViewport, snapshot: ILayoutSnapshot) => void,
+  recalculateLayout: () => ILayoutSnapshot,
+  {
+    disabled,
+    scrollContainer,
+  }: { disabled: boolean; scrollContainer?: React.RefObject<HTMLElement> },
+) => {
+  const latest = React.useRef({ handleUpdate, recalculateLayout });
+  latest.current = { handleUpdate, recalculateLayout };
+
+  useViewportEffect<ILayoutSnapshot>(
+    (viewport, snapshot) => latest.current.handleUpdate(viewport, snapshot),
+    {
+      disableScrollUpdates: disabled || Boolean(scrollContainer),
+      disableDimensionsUpdates: disabled || Boolean(scrollContainer),
+      recalculateLayoutBeforeUpdate: () => latest.current.recalculateLayout(),
+    },
+    [disabled, scrollContainer],
+  );
+
+  React.useEffect(() => {
+    if (disabled || !scrollContainer) {
+      return;
+    }
+    const observer = new ScrollContainerObserver({
+      getElement: () => scrollContainer.current,
+      notifyScroll: () => true,
+      notifyDimensions: () => true,
+      onUpdate: (viewport) =>
+        latest.current.handleUpdate(
+          viewport,
+          latest.current.recalculateLayout(),
+        ),
+    });
+    observer.observe();
+    observer.scheduleUpdate();
+    return () => observer.destroy();
+  }, [disabled, scrollContainer]);
+};
+
+const useStickyState = (disabled: boolean) => {
+  const [state, setState] = React.useState<IStickyState>(initialState);
+  const stateRef = React.useRef(state);
+  const updateState = React.useCallback((nextState: IStickyState) => {
+    if (!shallowEqualState(stateRef.current, nextState)) {
+      stateRef.current = nextState;
+      setState(nextState);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (disabled) {
+      updateState(initialState);
+    }
+  }, [disabled]);
+
+  return [state, updateState] as [IStickyState, typeof updateState];
+};
+
+const toPositionStyles = (
+  styles: IPositionStyles,
+  placeholderRect: IRect | undefined,
+  dimensions: IDimensions,
+  {
+    edge,
+    scrollContainer,
+    positioning,
+  }: {
+    edge: TStickyEdge;
+    scrollContainer?: React.RefObject<HTMLElement>;
+    positioning: TPositioning;
+  },
+) => {
+  if (!placeholderRect) {
+    return styles;
+  }
+  const alignedStyles = toAlignedPositionStyles(styles, edge, placeholderRect);
+  if (positioning === 'transform') {
+    return toTransformPositionStyles(
+      alignedStyles,
+      placeholderRect,
+      dimensions,
+    );
+  }
+  return scrollContainer
+    ? toScrollContainerPositionStyles(
+        alignedStyles,
+        placeholderRect,
+        dimensions,
+      )
+    : alignedStyles;
+};
+
+const getStyles = (
+  { styles, width, height }: IStickyState,
+  { disabled, edge }: { disabled: boolean; edge: TStickyEdge },
+) => {
+  const isHorizontal = edge === 'left' || edge === 'right';
+  const placeholderStyle: React.CSSProperties = { position: 'relative' };
+  if (!disabled && height !== null) {
+    placeholderStyle.height = height;
+    if (isHorizontal) {
+      placeholderStyle.width = width!;
+    }
+  }
+  const stickyStyle: React.CSSProperties = disabled
+    ? {}
+    : { width: 'inherit', ...toCSSPositionStyles(styles) };
+  return { placeholderStyle, stickyStyle };
+};
+
+/**
+ * Hook counterpart of the `Sticky` component. The returned refs have to be
+ * attached to a wrapping placeholder element and the element that should
+ * stick, the returned styles have to be applied to them.
+ */
+export const useSticky = ({
+  container,
+  overflowScroll = 'end',
+  edge = 'top',
+  defaultOffset = 0,
+  stacked = false,
+  disabled = false,
+  disableHardwareAcceleration = false,
+  positioning = 'position',
+}: IUseStickyOptions = {}): IUseStickyResult => {
+  const {
+    getStickyOffset,
+    updateStickyOffset,
+    removeStickyOffset,
+    scrollContainer,
+  } = useStickyContext();
+  const placeholderRef = React.useRef<any>(null);
+  const stickyRef = React.useRef<any>(null);
+  const [state, updateState] = useStickyState(disabled);
+  const isStacked = stacked && edge === 'top';
+
+  React.useEffect(() => {
+    if (disabled || edge !== 'top') {
+      removeStickyOffset(placeholderRef);
+    }
+  }, [disabled, edge]);
+  React.useEffect(() => () => removeStickyOffset(placeholderRef), []);
+
+  const handleUpdate = (
+    { scroll, dimensions }: { scroll: IScroll; dimensions: IDimensions },
+    { stickyRect, containerRect, placeholderRect }: ILayoutSnapshot,
+  ) => {
+    if (disabled || !containerRect) {
+      return;
+    }
+    const stickyOffset =
+      edge === 'top' ? getStickyOffset(placeholderRef) : emptyStickyOffset;
+    const layout = calcStickyLayout({
+      edge,
+      stickyRect,
+      containerRect,
+      scroll,
+      dimensions,
+      disableHardwareAcceleration,
+      options: {
+        hasContainer: Boolean(container),
+        overflowScroll,
+        offsetTop: stickyOffset.top + defaultOffset,
+        stickyOffset,
+      },
+    });
+    // elements at the top edge are known to the provider, even if they are
+    // not stacked, so that it can scroll targets below them
+    if (edge === 'top' && stickyRect) {
+      // only sticky or docked elements cover the elements that follow
+      const isActive = layout.isSticky || layout.isDocked;
+      const stickyHeight = Math.round(stickyRect.height);
+      updateStickyOffset(
+        placeholderRef,
+        isActive ? Math.max(Math.round(stickyRect.bottom), 0) : 0,
+        isActive ? stickyOffset.height + stickyHeight : 0,
+        { stacked: isStacked, stickyHeight, container },
+      );
+    }
+    updateState({
+      styles: toPositionStyles(layout.styles, placeholderRect, dimensions, {
+        edge,
+        scrollContainer,
+        positioning,
+      }),
+      width: stickyRect ? stickyRect.width : null,
+      height: stickyRect ? stickyRect.height : null,
+      isSticky: layout.isSticky,
+      isDocked: layout.isDocked,
+      isNearToViewport: layout.isNearToViewport,
+      appliedOverflowScroll: layout.appliedOverflowScroll,
+    });
+  };
+
+  useStickyObserver(
+    handleUpdate,
+    () =>
+      measure(
+        { sticky: stickyRef, placeholder: placeholderRef, container },
+        scrollContainer?.current,
+      ),
+    { disabled, scrollContainer },
+  );
+
+  return {
+    placeholderRef,
+    stickyRef,
+    ...getStyles(state, { disabled, edge }),
+    isSticky: state.isSticky,
+    // when sticking to the bottom edge, the element docks to the top of its container
+    isDockedToBottom: edge !== 'bottom' && state.isDocked,
+    isDockedToTop: edge === 'bottom' && state.isDocked,
+    isNearToViewport: state.isNearToViewport,
+    appliedOverflowScroll: state.appliedOverflowScroll,
+  };
+};
+
+/**
+ * Hook counterpart of the `StickyScrollUp` component. The returned refs have
+ * to be attached to a wrapping placeholder element and the element that
+ * should stick, the returned styles have to be applied to them.
+ */
+export const useStickyScrollUp = ({
+  tolerance,
+  disabled = false,
+  disableHardwareAcceleration = false,
+  positioning = 'position',
+}: IUseStickyScrollUpOptions = {}): IUseStickyScrollUpResult => {
+  const {
+    updateStickyOffset,
+    removeStickyOffset,
+    scrollContainer,
+  } = useStickyContext();
+  const placeholderRef = React.useRef<any>(null);
+  const stickyRef = React.useRef<any>(null);
+  const [state, updateState] = useStickyState(disabled);
+
+  React.useEffect(() => {
+    if (disabled) {
+      removeStickyOffset(placeholderRef);
+    }
+  }, [disabled]);
+  React.useEffect(() => () => removeStickyOffset(placeholderRef), []);
+
+  const handleUpdate = (
+    { scroll, dimensions }: { scroll: IScroll; dimensions: IDimensions },
+    { stickyRect, placeholderRect }: ILayoutSnapshot,
+  ) => {
+    if (disabled || !stickyRect || !placeholderRect) {
+      return;
+    }
+    const layout = calcScrollUpLayout({
+      stickyRect,
+      placeholderRect,
+      scroll,
+      disableHardwareAcceleration,
+      tolerance: resolveScrollTolerance(tolerance),
+    });
+    updateStickyOffset(
+      placeholderRef,
+      Math.max(Math.round(stickyRect.bottom), 0),
+      stickyRect.height,
+    );
+    updateState({
+      styles: toPositionStyles(layout.styles, placeholderRect, dimensions, {
+        edge: 'top',
+        scrollContainer,
+        positioning,
+      }),
+      width: stickyRect.width,
+      height: stickyRect.height,
+      isSticky: layout.isSticky,
+      isDocked: false,
+      isNearToViewport: layout.isNearToViewport,
+      appliedOverflowScroll: 'end',
+    });
+  };
+
+  useStickyObserver(
+    handleUpdate,
+    () =>
+      measure(
+        { sticky: stickyRef, placeholder: placeholderRef },
+        scrollContainer?.current,
+      ),
+    { disabled, scrollContainer },
+  );
+
+  return {
+    placeholderRef,
+    stickyRef,
+    ...getStyles(state, { disabled, edge: 'top' }),
+    isSticky: state.isSticky,
+    isNearToViewport: state.isNearToViewport,
+  };
+};
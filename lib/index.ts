@@ -1,3 +1,32 @@
-export { default as StickyProvider } from './StickyProvider';
+export {
+  default as StickyProvider,
+  useStickyScrollTo,
+  useStickyOverlayZIndex,
+} from './StickyProvider';
 export { default as Sticky } from './Sticky';
 export { default as StickyScrollUp } from './StickyScrollUp';
+export { default as StickyCollapse } from './StickyCollapse';
+export { default as StickyTableHeader } from './StickyTableHeader';
+export { default as StickySectionList } from './StickySectionList';
+export { default as StickySection } from './StickySection';
+export { useSticky, useStickyScrollUp } from './hooks';
+export { default as StickyDebugger } from './StickyDebugger';
+export {
+  calcStickyLayout,
+  calcScrollUpLayout,
+  calcSectionHeaderLayout,
+  calcCollapseLayout,
+  IStickyLayoutOptions,
+  IStickyLayout,
+  IScrollUpLayout,
+  ISectionHeaderLayout,
+  ICollapseLayout,
+} from './layout';
+export { createEmptyScroll, calcNextScroll } from './utils';
+export {
+  IPositionStyles,
+  IStickyOffset,
+  IScrollTolerance,
+  OverflowScrollType,
+  TStickyEdge,
+} from './types';
@@ -0,0 +1,594 @@
+import { IRect, IScroll, IDimensions } from 'react-viewport-utils';
+
+import {
+  IPositionStyles,
+  IScrollTolerance,
+  IStickyOffset,
+  OverflowScrollType,
+  TStickyEdge,
+} from './types';
+import {
+  supportsWillChange,
+  toEdgeRect,
+  toEdgeScroll,
+  toEdgeDimensions,
+  fromEdgePositionStyles,
+} from './utils';
+
+/**
+ * The layout engine behind all sticky components. All functions are pure,
+ * they take the rects of the elements relative to the viewport, the scroll
+ * state and the dimensions of the viewport and return the position styles for
+ * the sticky element together with its state. Nothing is read from or written
+ * to the DOM, so they can be used outside of React as well.
+ */
+
+export interface IStickyLayoutOptions {
+  // whether the element is docked to a container, otherwise it sticks forever
+  hasContainer: boolean;
+  overflowScroll: OverflowScrollType;
+  // the offset to the edge, including the offset of other sticky elements
+  offsetTop: number;
+  // the area covered by other stacked sticky elements
+  stickyOffset: IStickyOffset;
+}
+
+export interface IStickyLayout {
+  styles: IPositionStyles;
+  isSticky: boolean;
+  isDocked: boolean;
+  isNearToViewport: boolean;
+  appliedOverflowScroll: OverflowScrollType;
+  // how far the element moved through its container from `0` to `1`
+  progress: number;
+}
+
+export interface IScrollUpLayout {
+  styles: IPositionStyles;
+  isSticky: boolean;
+  isNearToViewport: boolean;
+}
+
+export interface ICollapseLayout {
+  styles: IPositionStyles;
+  isSticky: boolean;
+  isNearToViewport: boolean;
+  // 0 while the element is fully expanded, 1 once it is collapsed
+  collapseProgress: number;
+  // the height the element is collapsed to at the current scroll position
+  height: number;
+}
+
+export interface ISectionHeaderLayout {
+  styles: IPositionStyles;
+  isSticky: boolean;
+  isActive: boolean;
+}
+
+export const isNearToViewport = (rect?: IRect): boolean => {
+  const padding = 700;
+  return (rect?.top || 0) - padding < 0 && (rect?.bottom || 0) + padding > 0;
+};
+
+export const applyHardwareAcceleration = (
+  styles: IPositionStyles,
+  shouldAccelerate: boolean,
+  property: string = 'top',
+): IPositionStyles => {
+  if (supportsWillChange) {
+    styles.willChange = shouldAccelerate ? `position, ${property}` : undefined;
+  } else {
+    styles.transform = shouldAccelerate ? `translateZ(0)` : undefined;
+  }
+  return styles;
+};
+
+export const calcHeightDifference = ({
+  rectSticky,
+  dimensions,
+}: {
+  rectSticky?: IRect;
+  dimensions: IDimensions;
+}) => {
+  if (!dimensions) {
+    return 0;
+  }
+  return Math.max(0, Math.round(rectSticky?.height || 0) - dimensions.height);
+};
+
+export const getOverflowScrollType = (
+  { rectSticky, dimensions }: { rectSticky?: IRect; dimensions: IDimensions },
+  options: IStickyLayoutOptions,
+): OverflowScrollType => {
+  return options.overflowScroll === 'flow' &&
+    calcHeightDifference({ rectSticky, dimensions }) > 0
+    ? 'flow'
+    : 'end';
+};
+
+export const isSticky = (
+  {
+    rect,
+    containerRect,
+    dimensions,
+  }: { rect?: IRect; containerRect?: IRect; dimensions: IDimensions },
+  options: IStickyLayoutOptions,
+) => {
+  if (!options.hasContainer) {
+    return Math.round(containerRect?.top || 0) <= options.offsetTop;
+  }
+
+  if (Math.round(containerRect?.top || 0) > options.offsetTop) {
+    return false;
+  }
+
+  const height =
+    options.overflowScroll === 'flow'
+      ? Math.min(rect?.height || 0, dimensions.height)
+      : rect?.height || 0;
+  if (Math.round(containerRect?.bottom || 0) - options.offsetTop < height) {
+    return false;
+  }
+
+  return true;
+};
+
+export const isDockedToBottom = (
+  {
+    rect,
+    containerRect,
+    dimensions,
+  }: { rect?: IRect; containerRect: IRect; dimensions: IDimensions },
+  options: IStickyLayoutOptions,
+) => {
+  if (!rect || !containerRect) {
+    return false;
+  }
+
+  if (!options.hasContainer) {
+    return false;
+  }
+
+  if (rect.height > containerRect.height) {
+    return false;
+  }
+
+  const height =
+    options.overflowScroll === 'flow'
+      ? Math.min(rect.height, dimensions.height)
+      : rect.height;
+  if (Math.round(containerRect.bottom) - options.offsetTop >= height) {
+    return false;
+  }
+
+  return true;
+};
+
+export const calcOverflowScrollFlowStickyStyles = (
+  {
+    rectSticky,
+    containerRect,
+    scroll,
+    dimensions,
+  }: {
+    rectSticky?: IRect;
+    containerRect: IRect;
+    scroll: IScroll;
+    dimensions: IDimensions;
+  },
+  options: IStickyLayoutOptions,
+): IPositionStyles => {
+  const containerTop = Math.round(containerRect.top);
+  const stickyTop = Math.round(rectSticky?.top || 0);
+  const scrollY = Math.round(scroll.y);
+  const scrollYTurn = Math.round(scroll.yTurn);
+  const heightDiff = calcHeightDifference({ rectSticky, dimensions });
+  const containerTopOffset =
+    containerTop + scrollY - options.stickyOffset.height;
+  const isStickyBottomReached =
+    Math.round(rectSticky?.bottom || 0) <= dimensions.height;
+  const isContainerTopReached = containerTop < options.offsetTop;
+  const isTurnWithinHeightOffset =
+    scrollYTurn - heightDiff <= containerTopOffset;
+  const isTurnPointBeforeContainer = scrollYTurn < containerTopOffset;
+  const isTurnPointAfterContainer =
+    scrollYTurn > containerTopOffset + containerRect.height;
+  const isTurnPointWithinContainer = !(
+    isTurnPointBeforeContainer || isTurnPointAfterContainer
+  );
+  // scroll down AND sticky rect bottom not reached AND turn point not within the container OR
+  // scroll up AND container top not reached OR
+  //scroll up AND turns within the height diff AND turn point not within the container
+  if (
+    (scroll.isScrollingDown &&
+      !isStickyBottomReached &&
+      !isTurnPointWithinContainer) ||
+    (scroll.isScrollingUp && !isContainerTopReached) ||
+    (scroll.isScrollingUp &&
+      isTurnWithinHeightOffset &&
+      !isTurnPointWithinContainer)
+  ) {
+    return {
+      position: 'absolute',
+      top: 0,
+    };
+  }
+
+  // scroll down AND sticky bottom reached
+  if (scroll.isScrollingDown && isStickyBottomReached) {
+    return {
+      position: 'fixed',
+      top: -heightDiff,
+    };
+  }
+
+  const isStickyTopReached = stickyTop >= options.offsetTop;
+  // scroll down AND turn point within container OR
+  // scroll up AND turn point not before container AND not sticky top reached
+  if (
+    (scroll.isScrollingDown && isTurnPointWithinContainer) ||
+    (scroll.isScrollingUp && !isTurnPointBeforeContainer && !isStickyTopReached)
+  ) {
+    return {
+      position: 'absolute',
+      top: Math.abs(scrollY - stickyTop + (containerTop - scrollY)),
+    };
+  }
+
+  return {
+    position: 'fixed',
+    top: options.offsetTop,
+  };
+};
+
+export const calcPositionStyles = (
+  {
+    rectSticky,
+    containerRect,
+    scroll,
+    dimensions,
+  }: {
+    rectSticky?: IRect;
+    containerRect: IRect;
+    scroll: IScroll;
+    dimensions: IDimensions;
+  },
+  options: IStickyLayoutOptions,
+): IPositionStyles => {
+  if (isSticky({ rect: rectSticky, containerRect, dimensions }, options)) {
+    if (getOverflowScrollType({ rectSticky, dimensions }, options) === 'flow') {
+      return calcOverflowScrollFlowStickyStyles(
+        {
+          rectSticky,
+          containerRect,
+          scroll,
+          dimensions,
+        },
+        options,
+      );
+    }
+    const stickyOffset = options.stickyOffset.top;
+    const stickyHeight = options.stickyOffset.height;
+    const headIsFlexible = stickyOffset > 0 && stickyOffset < stickyHeight;
+    if (headIsFlexible) {
+      const relYTurn =
+        Math.round(scroll.yTurn - scroll.y + scroll.yDTurn) -
+        Math.round(containerRect.top);
+      return {
+        position: 'absolute',
+        top: relYTurn + options.offsetTop,
+      };
+    }
+
+    return {
+      position: 'fixed',
+      top: options.offsetTop,
+    };
+  }
+
+  if (
+    isDockedToBottom({ rect: rectSticky, containerRect, dimensions }, options)
+  ) {
+    return {
+      position: 'absolute',
+      top: containerRect.height - (rectSticky?.height || 0),
+    };
+  }
+
+  return {
+    position: 'absolute',
+    top: 0,
+  };
+};
+
+// 0 when the element starts to stick, 1 once it is docked to the end of its
+// container; without a container it jumps to 1 as soon as it is sticky
+export const calcContainerProgress = ({
+  rectSticky,
+  containerRect,
+  offsetTop,
+}: {
+  rectSticky?: IRect;
+  containerRect: IRect;
+  offsetTop: number;
+}): number => {
+  const distance = containerRect.height - (rectSticky?.height || 0);
+  const scrolled = offsetTop - containerRect.top;
+  if (distance <= 0) {
+    return scrolled > 0 ? 1 : 0;
+  }
+  return Math.min(Math.max(scrolled / distance, 0), 1);
+};
+
+/**
+ * Calculates the styles and state of a `Sticky` component. All calculations
+ * are done as if the component would stick to the top edge, rects, scroll and
+ * dimensions of other edges are mapped accordingly.
+ */
+export const calcStickyLayout = ({
+  edge,
+  stickyRect,
+  containerRect,
+  scroll,
+  dimensions,
+  disableHardwareAcceleration,
+  options,
+}: {
+  edge: TStickyEdge;
+  stickyRect?: IRect;
+  containerRect: IRect;
+  scroll: IScroll;
+  dimensions: IDimensions;
+  disableHardwareAcceleration?: boolean;
+  options: IStickyLayoutOptions;
+}): IStickyLayout => {
+  const edgeScroll = toEdgeScroll(scroll, edge);
+  const edgeDimensions = toEdgeDimensions(dimensions, edge);
+  const edgeStickyRect = toEdgeRect(stickyRect, edge, dimensions);
+  const edgeContainerRect = toEdgeRect(containerRect, edge, dimensions)!;
+  const layoutArgs = {
+    rect: edgeStickyRect,
+    containerRect: edgeContainerRect,
+    dimensions: edgeDimensions,
+  };
+
+  const styles = calcPositionStyles(
+    {
+      rectSticky: edgeStickyRect,
+      containerRect: edgeContainerRect,
+      scroll: edgeScroll,
+      dimensions: edgeDimensions,
+    },
+    options,
+  );
+  const nearToViewport = isNearToViewport(edgeStickyRect);
+  if (!disableHardwareAcceleration) {
+    applyHardwareAcceleration(styles, nearToViewport, edge);
+  }
+
+  return {
+    styles: fromEdgePositionStyles(styles, edge),
+    isSticky: isSticky(layoutArgs, options),
+    isDocked: isDockedToBottom(layoutArgs, options),
+    isNearToViewport: nearToViewport,
+    appliedOverflowScroll: getOverflowScrollType(
+      { rectSticky: edgeStickyRect, dimensions: edgeDimensions },
+      options,
+    ),
+    progress: calcContainerProgress({
+      rectSticky: edgeStickyRect,
+      containerRect: edgeContainerRect,
+      offsetTop: options.offsetTop,
+    }),
+  };
+};
+
+export const isScrollUpNearToViewport = (rect: IRect): boolean => {
+  const padding = 700;
+  return rect.top - padding < 0;
+};
+
+export const calcScrollUpPositionStyles = (
+  rect: IRect,
+  scroll: IScroll,
+  {
+    offsetTop = 0,
+    tolerance = { up: 0, down: 0 },
+  }: { offsetTop?: number; tolerance?: IScrollTolerance },
+): IPositionStyles => {
+  const rectTop = Math.round(rect.top);
+  const scrollY = Math.round(scroll.y);
+  const scrollYDTurn = Math.round(scroll.yDTurn);
+  if (scroll.isScrollingDown) {
+    // disable sticky mode above the top offset while scrolling down
+    if (rectTop > 0 && scrollY < offsetTop) {
+      return {
+        position: 'absolute',
+        top: 0,
+      };
+    }
+
+    // element is sticky and the scroll distance since the direction changed
+    // is within the tolerance
+    if (rectTop === 0 && scrollY > offsetTop && scrollYDTurn < tolerance.down) {
+      return {
+        position: 'fixed',
+        top: 0,
+      };
+    }
+
+    // element is visible and scrolls down
+    return {
+      position: 'absolute',
+      top: Math.max(scrollY - offsetTop + rectTop, 0),
+    };
+  }
+
+  const isTopVisible = rectTop >= 0;
+  const isBottomVisible = rectTop + rect.height <= 0;
+  // element is visible and scrolls up
+  if (!isTopVisible && !isBottomVisible) {
+    return {
+      position: 'absolute',
+      top: scrollY - offsetTop + rectTop,
+    };
+  }
+
+  // disable sticky mode above the top offset while scrolling up
+  if (scrollY <= offsetTop) {
+    return {
+      position: 'absolute',
+      top: 0,
+    };
+  }
+
+  // scroll direction changed from down to up and the element was not visible,
+  // it stays above the viewport until the scroll distance exceeds the tolerance
+  if (isBottomVisible && Math.abs(scrollYDTurn) <= tolerance.up) {
+    return {
+      position: 'absolute',
+      top: Math.round(scroll.yTurn) - offsetTop - rect.height - tolerance.up,
+    };
+  }
+
+  if (scrollYDTurn === 0) {
+    // scroll direction changed from down to up and the element was fully visible
+    return {
+      position: 'absolute',
+      top: Math.max(scrollY - offsetTop, 0),
+    };
+  }
+
+  // set sticky
+  return {
+    position: 'fixed',
+    top: 0,
+  };
+};
+
+/**
+ * Calculates the styles and state of a `StickyScrollUp` component.
+ */
+export const calcScrollUpLayout = ({
+  stickyRect,
+  placeholderRect,
+  scroll,
+  defaultOffsetTop,
+  disableHardwareAcceleration,
+  tolerance,
+}: {
+  stickyRect: IRect;
+  placeholderRect: IRect;
+  scroll: IScroll;
+  defaultOffsetTop?: number;
+  disableHardwareAcceleration?: boolean;
+  tolerance?: IScrollTolerance;
+}): IScrollUpLayout => {
+  const offsetTop = isNaN(defaultOffsetTop!)
+    ? Math.round(placeholderRect.top) + Math.round(scroll.y)
+    : defaultOffsetTop;
+  const styles = calcScrollUpPositionStyles(stickyRect, scroll, {
+    offsetTop,
+    tolerance,
+  });
+  const nearToViewport = isScrollUpNearToViewport(stickyRect);
+  if (!disableHardwareAcceleration) {
+    applyHardwareAcceleration(styles, nearToViewport);
+  }
+
+  return {
+    styles,
+    isSticky: styles.top === 0 && styles.position === 'fixed',
+    isNearToViewport: nearToViewport,
+  };
+};
+
+/**
+ * Calculates the styles of a section header within a `StickySectionList`. The
+ * header sticks as long as its section is at the top of the viewport and is
+ * pushed out by the bottom of its section afterwards.
+ */
+export const calcSectionHeaderLayout = ({
+  sectionRect,
+  placeholderRect,
+  headerHeight,
+  offsetTop,
+}: {
+  sectionRect: IRect;
+  placeholderRect: IRect;
+  headerHeight: number;
+  offsetTop: number;
+}): ISectionHeaderLayout => {
+  const sectionTop = Math.round(sectionRect.top);
+  const sectionBottom = Math.round(sectionRect.bottom);
+  const height = Math.round(headerHeight);
+  if (sectionTop > offsetTop || sectionBottom <= offsetTop) {
+    return {
+      styles: { position: 'absolute', top: 0 },
+      isSticky: false,
+      isActive: false,
+    };
+  }
+  // the header of the following section pushes this header out
+  if (sectionBottom - offsetTop < height) {
+    return {
+      styles: {
+        position: 'absolute',
+        top: Math.max(
+          sectionBottom - Math.round(placeholderRect.top) - height,
+          0,
+        ),
+      },
+      isSticky: false,
+      isActive: true,
+    };
+  }
+  return {
+    styles: { position: 'fixed', top: offsetTop },
+    isSticky: true,
+    isActive: true,
+  };
+};
+
+/**
+ * Calculates the styles of a `StickyCollapse` component. Once the placeholder
+ * reaches the offset the element sticks and shrinks by the distance scrolled
+ * until it reaches its collapsed height, its bottom therefore moves along with
+ * the content that follows the placeholder.
+ */
+export const calcCollapseLayout = ({
+  placeholderRect,
+  expandedHeight,
+  collapsedHeight,
+  offsetTop,
+  disableHardwareAcceleration,
+}: {
+  placeholderRect: IRect;
+  expandedHeight: number;
+  collapsedHeight: number;
+  offsetTop: number;
+  disableHardwareAcceleration?: boolean;
+}): ICollapseLayout => {
+  const distance = Math.max(Math.round(expandedHeight - collapsedHeight), 0);
+  const scrolled = offsetTop - Math.round(placeholderRect.top);
+  const isSticky = scrolled > 0;
+  const collapseProgress = !isSticky
+    ? 0
+    : distance > 0
+    ? Math.min(scrolled / distance, 1)
+    : 1;
+  const styles: IPositionStyles = isSticky
+    ? { position: 'fixed', top: offsetTop }
+    : { position: 'absolute', top: 0 };
+  const nearToViewport = isSticky || isNearToViewport(placeholderRect);
+  if (!disableHardwareAcceleration) {
+    applyHardwareAcceleration(styles, nearToViewport);
+  }
+  return {
+    styles,
+    isSticky,
+    isNearToViewport: nearToViewport,
+    collapseProgress,
+    height: Math.round(expandedHeight - distance * collapseProgress),
+  };
+};
@@ -0,0 +1,583 @@
+import * as React from 'react';
+import { act } from 'react-dom/test-utils';
+import { requestAnimationFrame } from 'react-viewport-utils';
+
+export interface ILayoutRect {
+  top: number;
+  left?: number;
+  width?: number;
+  height: number;
+}
+
+export interface IViewportSize {
+  width: number;
+  height: number;
+}
+
+export interface IScrollContainerLayout extends ILayoutRect {
+  scrollWidth?: number;
+  scrollHeight?: number;
+}
+
+export interface IScrollPosition {
+  x?: number;
+  y?: number;
+}
+
+export interface IScrollOptions {
+  // scrolls the given scroll container instead of the window
+  container?: TTarget;
+}
+
+export interface IViewportDriverOptions {
+  width?: number;
+  height?: number;
+  // the height of the document, defaults to the height of the viewport
+  documentHeight?: number;
+}
+
+type TTarget = Element | React.RefObject<Element>;
+
+interface IScrollState {
+  x: number;
+  y: number;
+}
+
+interface IContainerState extends IScrollState {
+  width: number;
+  height: number;
+  scrollWidth: number;
+  scrollHeight: number;
+}
+
+interface IClientRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+interface IPendingTimeout {
+  run: () => void;
+  due: number;
+}
+
+// frames without pending timeouts until all updates are considered applied
+const settleFrames = 3;
+// guards against timeouts that keep rescheduling themselves
+const maxSettleIterations = 100;
+
+const positionedValues = ['relative', 'absolute', 'fixed', 'sticky'];
+
+const toElement = (target: TTarget) => {
+  const element = 'current' in target ? target.current : target;
+  if (!element) {
+    throw new Error(
+      'react-stickup: the element is not mounted, make sure to render before driving the viewport.',
+    );
+  }
+  return element;
+};
+
+const toPx = (value: string) => {
+  const px = parseFloat(value);
+  return isNaN(px) ? null : px;
+};
+
+const parseTranslate = (transform: string) => {
+  const translate3d = /translate3d\(\s*(-?[\d.]+)px,\s*(-?[\d.]+)px/.exec(
+    transform,
+  );
+  if (translate3d) {
+    return { x: parseFloat(translate3d[1]), y: parseFloat(translate3d[2]) };
+  }
+  const translateY = /translateY\(\s*(-?[\d.]+)px/.exec(transform);
+  return { x: 0, y: translateY ? parseFloat(translateY[1]) : 0 };
+};
+
+const toDOMRect = ({ top, left, width, height }: IClientRect) =>
+  ({
+    top,
+    left,
+    width,
+    height,
+    bottom: top + height,
+    right: left + width,
+    x: left,
+    y: top,
+    toJSON() {
+      return { top, left, width, height };
+    },
+  } as DOMRect);
+
+const getPropertyDescriptor = (
+  target: object | null,
+  key: string,
+): PropertyDescriptor | undefined => {
+  if (!target) {
+    return undefined;
+  }
+  return (
+    Object.getOwnPropertyDescriptor(target, key) ||
+    getPropertyDescriptor(Object.getPrototypeOf(target), key)
+  );
+};
+
+const nextFrame = () =>
+  new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+const toScrollPosition = (position: number | IScrollPosition) =>
+  typeof position === 'number' ? { y: position } : position;
+
+/**
+ * Simulates a viewport within jsdom, which neither scrolls nor lays out
+ * elements. Elements are placed by their position within the document (or
+ * within the content of a scroll container), the client rects that sticky
+ * components measure are derived from these positions, the scroll position and
+ * the inline styles (`position`, `top`, `bottom`, `left`, `right`, `transform`) of the
+ * elements.
+ */
+class ViewportDriver {
+  private rects = new Map<Element, ILayoutRect>();
+  private containers = new Map<Element, IContainerState>();
+  private scroll: IScrollState = { x: 0, y: 0 };
+  private size: IViewportSize;
+  private documentHeight: number;
+  private restoreHandlers: Array<() => void> = [];
+  private timeouts = new Map<number, IPendingTimeout>();
+
+  constructor({
+    width = 1024,
+    height = 768,
+    documentHeight,
+  }: IViewportDriverOptions) {
+    this.size = { width, height };
+    this.documentHeight =
+      documentHeight !== undefined ? documentHeight : height;
+  }
+
+  install() {
+    const driver = this;
+    this.defineProperties(window, {
+      pageXOffset: () => this.scroll.x,
+      pageYOffset: () => this.scroll.y,
+      scrollX: () => this.scroll.x,
+      scrollY: () => this.scroll.y,
+      innerWidth: () => this.size.width,
+      innerHeight: () => this.size.height,
+      outerWidth: () => this.size.width,
+      outerHeight: () => this.size.height,
+    });
+    this.defineProperties(document.documentElement, {
+      clientWidth: () => this.size.width,
+      clientHeight: () => this.size.height,
+      offsetWidth: () => this.size.width,
+      offsetHeight: () => this.documentHeight,
+      scrollWidth: () => this.size.width,
+      scrollHeight: () => this.documentHeight,
+    });
+
+    const originalScrollTo = window.scrollTo;
+    window.scrollTo = function (x: number | ScrollToOptions, y?: number) {
+      const options = typeof x === 'object' ? x : { left: x, top: y };
+      driver.setWindowScroll(
+        options.left !== undefined ? options.left : driver.scroll.x,
+        options.top !== undefined ? options.top : driver.scroll.y,
+      );
+    } as typeof window.scrollTo;
+    this.restoreHandlers.push(() => {
+      window.scrollTo = originalScrollTo;
+    });
+
+    // debounced updates (e.g. once scrolling idles) are run by `update()`
+    // instead of waiting for them
+    const originalSetTimeout = window.setTimeout;
+    const originalClearTimeout = window.clearTimeout;
+    window.setTimeout = function (
+      handler: TimerHandler,
+      ms: number = 0,
+      ...args: any[]
+    ) {
+      if (typeof handler !== 'function') {
+        return originalSetTimeout(handler, ms, ...args);
+      }
+      const run = () => {
+        driver.timeouts.delete(id);
+        handler(...args);
+      };
+      const id = originalSetTimeout(run, ms);
+      driver.timeouts.set(id, { run, due: Date.now() + ms });
+      return id;
+    } as typeof window.setTimeout;
+    window.clearTimeout = function (id?: number) {
+      if (id !== undefined) {
+        driver.timeouts.delete(id);
+      }
+      originalClearTimeout(id);
+    } as typeof window.clearTimeout;
+    this.restoreHandlers.push(() => {
+      window.setTimeout = originalSetTimeout;
+      window.clearTimeout = originalClearTimeout;
+      this.timeouts.clear();
+    });
+
+    const proto = Element.prototype;
+    const originalGetBoundingClientRect = proto.getBoundingClientRect;
+    proto.getBoundingClientRect = function (this: Element) {
+      const rect = driver.getClientRect(this);
+      return rect ? toDOMRect(rect) : originalGetBoundingClientRect.call(this);
+    };
+    this.restoreHandlers.push(() => {
+      proto.getBoundingClientRect = originalGetBoundingClientRect;
+    });
+    return this;
+  }
+
+  /**
+   * Places an element within the document, or within the content of the
+   * scroll container it is rendered into. Elements without a rect measure like
+   * their first descendant with one, so wrapping elements (e.g. placeholders)
+   * don't need to be placed on their own.
+   */
+  setRect(target: TTarget, rect: ILayoutRect) {
+    const element = toElement(target);
+    if (!this.rects.has(element) && !this.containers.has(element)) {
+      this.defineProperties(element, {
+        offsetWidth: () => this.getClientRect(element)!.width,
+        offsetHeight: () => this.getClientRect(element)!.height,
+      });
+    }
+    this.rects.set(element, rect);
+  }
+
+  /**
+   * Registers an element that scrolls on its own. Its rect is also its visible
+   * area, the size of the content defaults to the size of the rect.
+   */
+  setScrollContainer(target: TTarget, layout: IScrollContainerLayout) {
+    const element = toElement(target) as HTMLElement;
+    const width = layout.width || 0;
+    const prev = this.containers.get(element);
+    const state: IContainerState = {
+      x: prev ? prev.x : 0,
+      y: prev ? prev.y : 0,
+      width,
+      height: layout.height,
+      scrollWidth:
+        layout.scrollWidth !== undefined ? layout.scrollWidth : width,
+      scrollHeight:
+        layout.scrollHeight !== undefined ? layout.scrollHeight : layout.height,
+    };
+    if (prev) {
+      Object.assign(prev, state);
+      this.setRect(element, layout);
+      return;
+    }
+    this.containers.set(element, state);
+    this.setRect(element, layout);
+    const scrollTo = (top: number, left: number) => {
+      state.y = top;
+      state.x = left;
+      element.dispatchEvent(new Event('scroll'));
+    };
+    this.defineProperties(element, {
+      clientWidth: () => state.width,
+      clientHeight: () => state.height,
+      offsetWidth: () => state.width,
+      offsetHeight: () => state.height,
+      scrollWidth: () => state.scrollWidth,
+      scrollHeight: () => state.scrollHeight,
+      scrollTop: [() => state.y, (top: number) => scrollTo(top, state.x)],
+      scrollLeft: [() => state.x, (left: number) => scrollTo(state.y, left)],
+    });
+    this.patchProperty(element, 'scrollTo', {
+      writable: true,
+      value: function (x: number | ScrollToOptions, y?: number) {
+        const options = typeof x === 'object' ? x : { left: x, top: y };
+        scrollTo(
+          options.top !== undefined ? options.top : state.y,
+          options.left !== undefined ? options.left : state.x,
+        );
+      },
+    });
+  }
+
+  /**
+   * Scrolls the window (or a scroll container) to the given position and waits
+   * until all sticky components are updated. A number scrolls vertically, an
+   * object can also scroll horizontally. The scroll direction is derived from
+   * the previous position.
+   */
+  async scrollTo(
+    position: number | IScrollPosition,
+    { container }: IScrollOptions = {},
+  ) {
+    const { x, y } = toScrollPosition(position);
+    if (container) {
+      toElement(container).scrollTo({ left: x, top: y });
+    } else {
+      this.setWindowScroll(
+        x !== undefined ? x : this.scroll.x,
+        y !== undefined ? y : this.scroll.y,
+      );
+    }
+    await this.update();
+  }
+
+  /**
+   * Scrolls the window (or a scroll container) by the given distance, a
+   * negative value scrolls up (or left).
+   */
+  async scrollBy(
+    delta: number | IScrollPosition,
+    options: IScrollOptions = {},
+  ) {
+    const { x = 0, y = 0 } = toScrollPosition(delta);
+    const element = options.container && toElement(options.container);
+    const current = element
+      ? { x: element.scrollLeft, y: element.scrollTop }
+      : this.scroll;
+    await this.scrollTo({ x: current.x + x, y: current.y + y }, options);
+  }
+
+  /**
+   * Changes the size of the viewport (and optionally the document) and waits
+   * until all sticky components are updated.
+   */
+  async resize(size: IViewportSize & { documentHeight?: number }) {
+    this.size = { width: size.width, height: size.height };
+    if (size.documentHeight !== undefined) {
+      this.documentHeight = size.documentHeight;
+    }
+    window.dispatchEvent(new Event('resize'));
+    await this.update();
+  }
+
+  /**
+   * Waits until all pending updates are applied, e.g. after the initial render
+   * or after rects have changed. Animation frames are awaited while pending
+   * timeouts are run right away, in the order they are due.
+   */
+  async update() {
+    await act(async () => {
+      let idleFrames = 0;
+      for (let i = 0; idleFrames < settleFrames; i++) {
+        if (i === maxSettleIterations) {
+          throw new Error(
+            'react-stickup: the viewport did not settle, a timeout seems to reschedule itself.',
+          );
+        }
+        await nextFrame();
+        idleFrames = this.runNextTimeout() ? 0 : idleFrames + 1;
+      }
+    });
+  }
+
+  /**
+   * Removes all patches from the window, the document and the elements.
+   */
+  restore() {
+    this.restoreHandlers.reverse().forEach((handler) => handler());
+    this.restoreHandlers = [];
+    this.rects.clear();
+    this.containers.clear();
+  }
+
+  private runNextTimeout() {
+    let nextId: number | undefined;
+    this.timeouts.forEach((timeout, id) => {
+      if (
+        nextId === undefined ||
+        timeout.due < this.timeouts.get(nextId)!.due
+      ) {
+        nextId = id;
+      }
+    });
+    if (nextId === undefined) {
+      return false;
+    }
+    const { run } = this.timeouts.get(nextId)!;
+    window.clearTimeout(nextId);
+    run();
+    return true;
+  }
+
+  private setWindowScroll(x: number, y: number) {
+    this.scroll = { x, y };
+    window.dispatchEvent(new Event('scroll'));
+  }
+
+  private defineProperties(
+    target: object,
+    properties: Record<
+      string,
+      (() => number) | [() => number, (v: number) => void]
+    >,
+  ) {
+    Object.keys(properties).forEach((key) => {
+      const property = properties[key];
+      const [get, set] = Array.isArray(property) ? property : [property];
+      this.patchProperty(target, key, { get, set });
+    });
+  }
+
+  // an inherited property is restored as an own property that behaves the same
+  private patchProperty(
+    target: object,
+    key: string,
+    descriptor: PropertyDescriptor,
+  ) {
+    const original: PropertyDescriptor = getPropertyDescriptor(target, key) || {
+      writable: true,
+      value: undefined,
+    };
+    Object.defineProperty(target, key, { ...descriptor, configurable: true });
+    this.restoreHandlers.push(() => {
+      Object.defineProperty(target, key, { ...original, configurable: true });
+    });
+  }
+
+  // the rect of the element within its scroll parent if it would not be positioned
+  private getLayoutRect(element: Element): ILayoutRect | null {
+    const rect = this.rects.get(element);
+    if (rect) {
+      return rect;
+    }
+    for (let i = 0; i < element.children.length; i++) {
+      const childRect = this.getLayoutRect(element.children[i]);
+      if (childRect) {
+        return childRect;
+      }
+    }
+    return null;
+  }
+
+  private getScrollParentOrigin(element: Element) {
+    let parent = element.parentElement;
+    while (parent && !this.containers.has(parent)) {
+      parent = parent.parentElement;
+    }
+    if (!parent) {
+      return { top: -this.scroll.y, left: -this.scroll.x };
+    }
+    const state = this.containers.get(parent)!;
+    const parentRect = this.getClientRect(parent)!;
+    return { top: parentRect.top - state.y, left: parentRect.left - state.x };
+  }
+
+  private getOffsetParentRect(element: Element): IClientRect {
+    let parent = element.parentElement;
+    while (
+      parent &&
+      positionedValues.indexOf(parent.style.position) === -1 &&
+      !this.containers.has(parent)
+    ) {
+      parent = parent.parentElement;
+    }
+    const rect = parent && this.getClientRect(parent);
+    if (rect) {
+      return rect;
+    }
+    const origin = this.getScrollParentOrigin(element);
+    return {
+      top: origin.top,
+      left: origin.left,
+      width: this.size.width,
+      height: this.documentHeight,
+    };
+  }
+
+  private getClientRect(element: Element): IClientRect | null {
+    const rect = this.getLayoutRect(element);
+    if (!rect) {
+      return null;
+    }
+    const width = rect.width !== undefined ? rect.width : this.size.width;
+    const { height } = rect;
+    const style = (element as HTMLElement).style || {};
+    const top = toPx(style.top);
+    const bottom = toPx(style.bottom);
+    const left = toPx(style.left);
+    const right = toPx(style.right);
+    const translate = parseTranslate(style.transform || '');
+
+    if (style.position === 'fixed') {
+      return {
+        top:
+          (top !== null
+            ? top
+            : bottom !== null
+            ? this.size.height - bottom - height
+            : 0) + translate.y,
+        left:
+          (left !== null
+            ? left
+            : right !== null
+            ? this.size.width - right - width
+            : rect.left || 0) + translate.x,
+        width,
+        height,
+      };
+    }
+    if (style.position === 'absolute') {
+      const parentRect = this.getOffsetParentRect(element);
+      return {
+        top:
+          (top !== null
+            ? parentRect.top + top
+            : bottom !== null
+            ? parentRect.top + parentRect.height - bottom - height
+            : parentRect.top) + translate.y,
+        left:
+          (left !== null
+            ? parentRect.left + left
+            : right !== null
+            ? parentRect.left + parentRect.width - right - width
+            : parentRect.left) + translate.x,
+        width,
+        height,
+      };
+    }
+    const origin = this.getScrollParentOrigin(element);
+    const isRelative = style.position === 'relative';
+    return {
+      top:
+        origin.top +
+        rect.top +
+        (isRelative && top !== null ? top : 0) +
+        translate.y,
+      left:
+        origin.left +
+        (rect.left || 0) +
+        (isRelative
+          ? left !== null
+            ? left
+            : right !== null
+            ? -right
+            : 0
+          : 0) +
+        translate.x,
+      width,
+      height,
+    };
+  }
+}
+
+export type IViewportDriver = Pick<
+  ViewportDriver,
+  | 'setRect'
+  | 'setScrollContainer'
+  | 'scrollTo'
+  | 'scrollBy'
+  | 'resize'
+  | 'update'
+  | 'restore'
+>;
+
+/**
+ * Creates a simulated viewport to test sticky components with jest and jsdom.
+ * Call `restore()` after each test to remove it again.
+ */
+export const createViewportDriver = (
+  options: IViewportDriverOptions = {},
+): IViewportDriver => new ViewportDriver(options).install();
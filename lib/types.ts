@@ -27,16 +27,130 @@ export interface IStickyComponentProps {
    * The class name is passed directly to the placeholder element.
    */
   className?: string;
+  /**
+   * Publishes the state of the component as css custom properties on the placeholder and the sticky element, so that stylings can react to it without rendering `children` as a function. The properties are `--sticky-offset` (the offset to the edge when sticky), `--sticky-height` (the height of the sticky element) and `--sticky-is-sticky` (`1` when sticky, otherwise `0`).
+   */
+  cssVariables?: boolean;
+  /**
+   * Defines how the sticky element is moved. The default `position` switches between `position: absolute` and `position: fixed`, `transform` keeps the element within the flow of the document and moves it with `translate3d`.
+   */
+  positioning?: TPositioning;
+  /**
+   * Overrides the z-index that is assigned by the `StickyProvider` (see the `zIndex` property of the provider) or sets the z-index of the sticky element in case the provider does not manage it.
+   */
+  zIndex?: number;
+  /**
+   * The estimated or known size of the sticky element. The space is reserved by the placeholder before the element is measured, e.g. during server side rendering, to avoid layout shifts. Without a `width` the width is defined by the styles of the sticky element until it is measured.
+   */
+  defaultSize?: IStickySize;
+}
+
+export interface IStickySize {
+  width?: number;
+  height: number;
+}
+
+export interface ICSSVariables {
+  [name: string]: string;
+}
+
+export interface IStickyMediaProps {
+  /**
+   * A media query (e.g. `(min-width: 768px)`) to enable the sticky behavior only while the query matches. Overrides the `media` property of the `StickyProvider`, an empty string enables it regardless of the provider.
+   */
+  media?: string;
+}
+
+export interface IStickyOffset {
+  top: number;
+  height: number;
+}
+
+export interface IStickyOffsetEntry extends IStickyOffsetOptions {
+  ref: React.RefObject<HTMLElement>;
+  offset: number;
+  height: number;
+}
+
+export interface IStickyOffsetOptions {
+  // whether the element pushes down the sticky elements that follow
+  stacked?: boolean;
+  // the height of the element once it sticks, also known while it does not
+  stickyHeight?: number;
+  // the element will not cover any content after the end of its container
+  container?: React.RefObject<HTMLElement>;
+}
+
+export interface IStickyZIndexEntry {
+  ref: React.RefObject<HTMLElement>;
+  isSticky: boolean;
+  zIndex?: number;
+  onChange: (zIndex?: number) => void;
 }
 
 export interface IStickyInjectedProps {
-  stickyOffset: { top: number; height: number };
-  updateStickyOffset: (offset: number, height: number) => void;
+  getStickyOffset: (ref: React.RefObject<HTMLElement>) => IStickyOffset;
+  updateStickyOffset: (
+    ref: React.RefObject<HTMLElement>,
+    offset: number,
+    height: number,
+    options?: IStickyOffsetOptions,
+  ) => void;
+  removeStickyOffset: (ref: React.RefObject<HTMLElement>) => void;
+  updateStickyZIndex: (
+    ref: React.RefObject<HTMLElement>,
+    isSticky: boolean,
+    onChange: (zIndex?: number) => void,
+  ) => void;
+  removeStickyZIndex: (ref: React.RefObject<HTMLElement>) => void;
+  scrollTo: (target: HTMLElement | number, options?: IScrollToOptions) => void;
+  scrollContainer?: React.RefObject<HTMLElement>;
+  // only set within a `StickyProvider`
+  hasProvider?: boolean;
+  // reveals hidden sticky elements that receive the keyboard focus
+  correctFocus?: boolean;
 }
 
+export interface IScrollToOptions {
+  /**
+   * Defines whether the scroll position should change instantly (`auto`) or animated (`smooth`).
+   */
+  behavior?: 'auto' | 'smooth';
+  /**
+   * An additional offset between the sticky elements and the target.
+   */
+  offset?: number;
+}
+
+export type OverflowScrollType = 'flow' | 'end';
+
+export type TStickyEdge = 'top' | 'bottom' | 'left' | 'right';
+
+export type TPositioning = 'position' | 'transform';
+
 export interface IPositionStyles {
-  position?: 'fixed' | 'absolute' | 'sticky';
+  position?: 'fixed' | 'absolute' | 'sticky' | 'relative';
   transform?: string;
+  translateX?: number;
+  translateY?: number;
   top?: number;
+  bottom?: number;
+  left?: number;
+  right?: number;
+  // the width of an element that is taken out of the flow, e.g. a section header
+  width?: number;
   willChange?: string;
 }
+
+export type TPointerType = 'mouse' | 'touch' | 'pen';
+
+export type TToleranceValue = number | { up?: number; down?: number };
+
+export type TScrollTolerance =
+  | TToleranceValue
+  | { [pointerType in TPointerType]?: TToleranceValue };
+
+export interface IScrollTolerance {
+  up: number;
+  down: number;
+}
@@ -1,4 +1,15 @@
-import { IPositionStyles } from './types';
+import { IRect, IScroll, IDimensions } from 'react-viewport-utils';
+import {
+  IPositionStyles,
+  TStickyEdge,
+  TPointerType,
+  TScrollTolerance,
+  TToleranceValue,
+  IScrollTolerance,
+  ICSSVariables,
+  IStickyOffset,
+  IStickyOffsetEntry,
+} from './types';
 
 export const supportsWillChange = (() => {
   const isBrowser =
@@ -19,6 +30,10 @@ export const supportsPositionSticky = (() => {
   return CSS.supports ? CSS.supports('position: sticky') : false;
 })();
 
+export const supportsIntersectionObserver =
+  typeof window !== 'undefined' &&
+  typeof window.IntersectionObserver !== 'undefined';
+
 export const shallowEqualPositionStyles = (
   a: IPositionStyles,
   b: IPositionStyles,
@@ -32,11 +47,505 @@ export const shallowEqualPositionStyles = (
   if (a.top !== b.top) {
     return false;
   }
+  if (a.bottom !== b.bottom) {
+    return false;
+  }
+  if (a.left !== b.left) {
+    return false;
+  }
+  if (a.right !== b.right) {
+    return false;
+  }
   if (a.transform !== b.transform) {
     return false;
   }
+  if (a.translateX !== b.translateX) {
+    return false;
+  }
+  if (a.translateY !== b.translateY) {
+    return false;
+  }
+  if (a.width !== b.width) {
+    return false;
+  }
   if (a.willChange !== b.willChange) {
     return false;
   }
   return true;
 };
+
+// The sticky calculations are written for the top edge of the viewport. The
+// following helpers map rects, scroll and dimensions of other edges into that
+// coordinate system so that the same calculations can be reused.
+
+export const toEdgeRect = (
+  rect: IRect | undefined,
+  edge: TStickyEdge,
+  dimensions: IDimensions,
+): IRect | undefined => {
+  if (!rect || edge === 'top') {
+    return rect;
+  }
+  if (edge === 'bottom') {
+    return {
+      ...rect,
+      top: dimensions.clientHeight - rect.bottom,
+      bottom: dimensions.clientHeight - rect.top,
+    };
+  }
+  if (edge === 'left') {
+    return {
+      top: rect.left,
+      bottom: rect.right,
+      height: rect.width,
+      left: rect.top,
+      right: rect.bottom,
+      width: rect.height,
+    };
+  }
+  return {
+    top: dimensions.clientWidth - rect.right,
+    bottom: dimensions.clientWidth - rect.left,
+    height: rect.width,
+    left: rect.top,
+    right: rect.bottom,
+    width: rect.height,
+  };
+};
+
+export const toEdgeScroll = (scroll: IScroll, edge: TStickyEdge): IScroll => {
+  if (edge === 'top') {
+    return scroll;
+  }
+  if (edge === 'bottom') {
+    return {
+      ...scroll,
+      y: -scroll.y,
+      yTurn: -scroll.yTurn,
+      yDTurn: -scroll.yDTurn,
+      isScrollingUp: scroll.isScrollingDown,
+      isScrollingDown: scroll.isScrollingUp,
+    };
+  }
+  const direction = edge === 'left' ? 1 : -1;
+  return {
+    x: scroll.y,
+    y: scroll.x * direction,
+    xTurn: scroll.yTurn,
+    yTurn: scroll.xTurn * direction,
+    xDTurn: scroll.yDTurn,
+    yDTurn: scroll.xDTurn * direction,
+    isScrollingUp:
+      edge === 'left' ? scroll.isScrollingLeft : scroll.isScrollingRight,
+    isScrollingDown:
+      edge === 'left' ? scroll.isScrollingRight : scroll.isScrollingLeft,
+    isScrollingLeft: scroll.isScrollingUp,
+    isScrollingRight: scroll.isScrollingDown,
+  };
+};
+
+export const toEdgeDimensions = (
+  dimensions: IDimensions,
+  edge: TStickyEdge,
+): IDimensions => {
+  if (edge === 'top' || edge === 'bottom') {
+    return dimensions;
+  }
+  return {
+    width: dimensions.height,
+    height: dimensions.width,
+    clientWidth: dimensions.clientHeight,
+    clientHeight: dimensions.clientWidth,
+    outerWidth: dimensions.outerHeight,
+    outerHeight: dimensions.outerWidth,
+    documentWidth: dimensions.documentHeight,
+    documentHeight: dimensions.documentWidth,
+  };
+};
+
+export const fromEdgePositionStyles = (
+  { top, ...styles }: IPositionStyles,
+  edge: TStickyEdge,
+): IPositionStyles => {
+  if (edge === 'top') {
+    return { top, ...styles };
+  }
+  return {
+    ...styles,
+    [edge]: top,
+  };
+};
+
+// whether the element `a` comes before the element `b` within the document
+export const isBefore = (a: HTMLElement | null, b: HTMLElement | null) => {
+  if (!a || !b) {
+    return false;
+  }
+  return Boolean(
+    a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING,
+  );
+};
+
+// the area covered by all stacked sticky elements before the given element
+export const calcStackedStickyOffset = (
+  entries: IStickyOffsetEntry[],
+  ref: React.RefObject<HTMLElement>,
+): IStickyOffset =>
+  entries.reduce(
+    (stickyOffset, entry) => {
+      if (
+        entry.ref === ref ||
+        entry.stacked === false ||
+        !isBefore(entry.ref.current, ref.current)
+      ) {
+        return stickyOffset;
+      }
+      return {
+        top: Math.max(stickyOffset.top, Math.min(entry.offset, entry.height)),
+        height: Math.max(stickyOffset.height, entry.height),
+      };
+    },
+    { top: 0, height: 0 },
+  );
+
+// the area covered by the given sticky elements once all of them stick, the
+// entries have to be in the order of the document
+export const calcCoveredStickyHeight = (entries: IStickyOffsetEntry[]) => {
+  let stackHeight = 0;
+  return entries.reduce((covered, entry) => {
+    const height =
+      stackHeight +
+      (entry.stickyHeight !== undefined ? entry.stickyHeight : entry.height);
+    if (entry.stacked !== false) {
+      stackHeight = height;
+    }
+    return Math.max(covered, height);
+  }, 0);
+};
+
+export const createEmptyScroll = (): IScroll => ({
+  x: 0,
+  y: 0,
+  xTurn: 0,
+  yTurn: 0,
+  xDTurn: 0,
+  yDTurn: 0,
+  isScrollingUp: false,
+  isScrollingDown: false,
+  isScrollingLeft: false,
+  isScrollingRight: false,
+});
+
+// same turn point semantics as used by `react-viewport-utils` for the window
+export const calcNextScroll = (
+  prev: IScroll,
+  x: number,
+  y: number,
+): IScroll => {
+  const isScrollingLeft = x === prev.x ? prev.isScrollingLeft : x < prev.x;
+  const isScrollingRight = x === prev.x ? prev.isScrollingRight : x > prev.x;
+  const isScrollingUp = y === prev.y ? prev.isScrollingUp : y < prev.y;
+  const isScrollingDown = y === prev.y ? prev.isScrollingDown : y > prev.y;
+  const xTurn = isScrollingLeft === prev.isScrollingLeft ? prev.xTurn : x;
+  const yTurn = isScrollingUp === prev.isScrollingUp ? prev.yTurn : y;
+  return {
+    x,
+    y,
+    xTurn,
+    yTurn,
+    xDTurn: x - xTurn,
+    yDTurn: y - yTurn,
+    isScrollingUp,
+    isScrollingDown,
+    isScrollingLeft,
+    isScrollingRight,
+  };
+};
+
+// same values as used by `react-viewport-utils` for the window
+export const getWindowDimensions = (): IDimensions => {
+  const {
+    clientWidth,
+    clientHeight,
+    scrollWidth,
+    scrollHeight,
+    offsetWidth,
+    offsetHeight,
+  } = document.documentElement;
+  return {
+    width: window.innerWidth,
+    height: window.innerHeight,
+    clientWidth,
+    clientHeight,
+    outerWidth: window.outerWidth,
+    outerHeight: window.outerHeight,
+    documentWidth: Math.max(scrollWidth, offsetWidth, clientWidth),
+    documentHeight: Math.max(scrollHeight, offsetHeight, clientHeight),
+  };
+};
+
+export const getElementDimensions = (element: HTMLElement): IDimensions => ({
+  width: element.clientWidth,
+  height: element.clientHeight,
+  clientWidth: element.clientWidth,
+  clientHeight: element.clientHeight,
+  outerWidth: element.offsetWidth,
+  outerHeight: element.offsetHeight,
+  documentWidth: element.scrollWidth,
+  documentHeight: element.scrollHeight,
+});
+
+interface IOrigin {
+  top: number;
+  left: number;
+}
+
+// the visible area of a scroll container starts within its borders
+export const getScrollContainerOrigin = (element: HTMLElement): IOrigin => {
+  const rect = element.getBoundingClientRect();
+  return {
+    top: rect.top + element.clientTop,
+    left: rect.left + element.clientLeft,
+  };
+};
+
+export const toScrollContainerRect = (
+  rect: IRect | undefined,
+  origin: IOrigin | null,
+): IRect | undefined => {
+  if (!rect || !origin) {
+    return rect;
+  }
+  return {
+    top: rect.top - origin.top,
+    bottom: rect.bottom - origin.top,
+    left: rect.left - origin.left,
+    right: rect.right - origin.left,
+    height: rect.height,
+    width: rect.width,
+  };
+};
+
+// `position: fixed` does not follow the scroll position on the axis the element
+// does not stick to, it is therefore aligned with the placeholder on that axis
+export const toAlignedPositionStyles = (
+  styles: IPositionStyles,
+  edge: TStickyEdge,
+  placeholderRect: IRect | undefined,
+): IPositionStyles => {
+  if (styles.position !== 'fixed' || !placeholderRect) {
+    return styles;
+  }
+  if (edge === 'top' || edge === 'bottom') {
+    return { ...styles, left: placeholderRect.left };
+  }
+  return { ...styles, top: placeholderRect.top };
+};
+
+// `position: fixed` is always relative to the window, within a scroll container
+// the same position is therefore simulated by an absolute position relative to
+// the placeholder
+export const toScrollContainerPositionStyles = (
+  styles: IPositionStyles,
+  placeholderRect: IRect,
+  dimensions: IDimensions,
+): IPositionStyles => {
+  if (styles.position !== 'fixed') {
+    return styles;
+  }
+  const { top, bottom, left, right, ...rest } = styles;
+  const nextStyles: IPositionStyles = { ...rest, position: 'absolute' };
+  if (top !== undefined) {
+    nextStyles.top = Math.round(top - placeholderRect.top);
+  }
+  if (bottom !== undefined) {
+    nextStyles.bottom = Math.round(
+      bottom - (dimensions.clientHeight - placeholderRect.bottom),
+    );
+  }
+  if (left !== undefined) {
+    nextStyles.left = Math.round(left - placeholderRect.left);
+  }
+  if (right !== undefined) {
+    nextStyles.right = Math.round(
+      right - (dimensions.clientWidth - placeholderRect.right),
+    );
+  }
+  return nextStyles;
+};
+
+// moves the element from its position within the flow instead of positioning it
+export const toTransformPositionStyles = (
+  styles: IPositionStyles,
+  placeholderRect: IRect,
+  dimensions: IDimensions,
+): IPositionStyles => {
+  if (styles.position !== 'fixed' && styles.position !== 'absolute') {
+    return styles;
+  }
+  const {
+    top,
+    bottom,
+    left,
+    right,
+    willChange,
+  } = toScrollContainerPositionStyles(styles, placeholderRect, dimensions);
+  return {
+    position: 'relative',
+    translateX: left !== undefined ? left : right !== undefined ? -right : 0,
+    translateY: top !== undefined ? top : bottom !== undefined ? -bottom : 0,
+    willChange: willChange ? 'transform' : undefined,
+  };
+};
+
+export const toCSSPositionStyles = ({
+  translateX,
+  translateY,
+  ...styles
+}: IPositionStyles): React.CSSProperties => {
+  if (translateX === undefined && translateY === undefined) {
+    return styles;
+  }
+  return {
+    ...styles,
+    transform: `translate3d(${translateX || 0}px, ${translateY || 0}px, 0)`,
+  };
+};
+
+let lastPointerType: TPointerType | null = null;
+
+const handlePointerDown = (event: PointerEvent) => {
+  if (event.pointerType) {
+    lastPointerType = event.pointerType as TPointerType;
+  }
+};
+
+const handleTouchStart = () => {
+  lastPointerType = 'touch';
+};
+
+const handleWheel = () => {
+  lastPointerType = 'mouse';
+};
+
+// the listeners are only added once the pointer type is requested for the first time
+export const getLastPointerType = (): TPointerType => {
+  if (lastPointerType === null) {
+    lastPointerType = 'mouse';
+    if (typeof window !== 'undefined') {
+      const options: AddEventListenerOptions = {
+        passive: true,
+        capture: true,
+      };
+      window.addEventListener('pointerdown', handlePointerDown, options);
+      window.addEventListener('touchstart', handleTouchStart, options);
+      window.addEventListener('wheel', handleWheel, options);
+    }
+  }
+  return lastPointerType;
+};
+
+const toScrollTolerance = (value?: TToleranceValue): IScrollTolerance => {
+  if (typeof value === 'number') {
+    return { up: value, down: value };
+  }
+  return { up: value?.up || 0, down: value?.down || 0 };
+};
+
+export const resolveScrollTolerance = (
+  tolerance?: TScrollTolerance,
+): IScrollTolerance => {
+  if (
+    typeof tolerance === 'object' &&
+    ('mouse' in tolerance || 'touch' in tolerance || 'pen' in tolerance)
+  ) {
+    return toScrollTolerance(
+      (tolerance as { [pointerType in TPointerType]?: TToleranceValue })[
+        getLastPointerType()
+      ],
+    );
+  }
+  return toScrollTolerance(tolerance as TToleranceValue | undefined);
+};
+
+const supportsScrollBehavior = (() => {
+  const isBrowser =
+    typeof window !== 'undefined' &&
+    typeof document !== 'undefined' &&
+    document.documentElement;
+  if (!isBrowser) {
+    return false;
+  }
+  return 'scrollBehavior' in document.documentElement.style;
+})();
+
+export const scrollToPosition = (
+  scrollContainer: HTMLElement | null | undefined,
+  top: number,
+  behavior: 'auto' | 'smooth' = 'auto',
+) => {
+  if (scrollContainer) {
+    if (supportsScrollBehavior && scrollContainer.scrollTo) {
+      scrollContainer.scrollTo({ top, behavior });
+    } else {
+      scrollContainer.scrollTop = top;
+    }
+    return;
+  }
+  if (supportsScrollBehavior) {
+    window.scrollTo({ top, left: window.pageXOffset, behavior });
+  } else {
+    window.scrollTo(window.pageXOffset, top);
+  }
+};
+
+// rounds to the step without floating point artifacts, e.g. 0.07 for 0.0700001
+export const roundToStep = (value: number, step: number) =>
+  Math.round(Math.round(value / step) * step * 1e6) / 1e6;
+
+// only changed properties are written to avoid style recalculations
+export const updateCSSVariables = (
+  elements: Array<HTMLElement | null | undefined>,
+  variables: ICSSVariables,
+  prevVariables: ICSSVariables,
+): ICSSVariables => {
+  Object.keys(variables).forEach((name) => {
+    if (variables[name] === prevVariables[name]) {
+      return;
+    }
+    elements.forEach((element) => {
+      if (element) {
+        element.style.setProperty(name, variables[name]);
+      }
+    });
+  });
+  return variables;
+};
+
+export const removeCSSVariables = (
+  elements: Array<HTMLElement | null | undefined>,
+  variables: ICSSVariables,
+): ICSSVariables => {
+  Object.keys(variables).forEach((name) => {
+    elements.forEach((element) => {
+      if (element) {
+        element.style.removeProperty(name);
+      }
+    });
+  });
+  return {};
+};
+
+export const createStickyCSSVariables = ({
+  offset,
+  height,
+  isSticky,
+}: {
+  offset: number;
+  height: number;
+  isSticky: boolean;
+}): ICSSVariables => ({
+  '--sticky-offset': `${Math.round(offset)}px`,
+  '--sticky-height': `${Math.round(height)}px`,
+  '--sticky-is-sticky': isSticky ? '1' : '0',
+});
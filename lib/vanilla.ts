@@ -0,0 +1,435 @@
+import { IRect, IScroll, IDimensions } from 'react-viewport-utils';
+
+import {
+  IPositionStyles,
+  IStickyOffsetEntry,
+  OverflowScrollType,
+  TScrollTolerance,
+} from './types';
+import {
+  calcStackedStickyOffset,
+  calcNextScroll,
+  createEmptyScroll,
+  getWindowDimensions,
+  resolveScrollTolerance,
+  shallowEqualPositionStyles,
+  toAlignedPositionStyles,
+  toCSSPositionStyles,
+} from './utils';
+import { calcStickyLayout, calcScrollUpLayout } from './layout';
+
+export interface IStickyOptions {
+  // the element the sticky element is docked to, it sticks forever if not set
+  container?: HTMLElement;
+  offsetTop?: number;
+  overflowScroll?: OverflowScrollType;
+  // pushes down the sticky elements that follow within the document
+  stacked?: boolean;
+  disableHardwareAcceleration?: boolean;
+  onChange?: (state: IStickyState) => void;
+}
+
+export interface IStickyScrollUpOptions {
+  tolerance?: TScrollTolerance;
+  disableHardwareAcceleration?: boolean;
+  onChange?: (state: IStickyScrollUpState) => void;
+}
+
+export interface IStickyState {
+  isSticky: boolean;
+  isDockedToBottom: boolean;
+  isNearToViewport: boolean;
+  appliedOverflowScroll: OverflowScrollType;
+}
+
+export interface IStickyScrollUpState {
+  isSticky: boolean;
+  isNearToViewport: boolean;
+}
+
+export interface IStickyHandle {
+  // schedules a new measurement, e.g. after the content of the element changed
+  update: () => void;
+  disable: () => void;
+  enable: () => void;
+  // restores the element and the document as they were before
+  destroy: () => void;
+}
+
+interface IViewport {
+  scroll: IScroll;
+  dimensions: IDimensions;
+}
+
+interface ISnapshot {
+  stickyRect: IRect;
+  placeholderRect: IRect;
+  containerRect: IRect;
+}
+
+interface IStickyInstance {
+  placeholder: { current: HTMLElement };
+  measure: () => ISnapshot;
+  update: (viewport: IViewport, snapshot: ISnapshot) => void;
+}
+
+const positionProperties = [
+  'position',
+  'top',
+  'bottom',
+  'left',
+  'right',
+  'transform',
+  'willChange',
+] as const;
+
+// the inline styles an instance writes, restored once it is disabled
+const inlineStyleProperties = [
+  ...positionProperties,
+  'width',
+  'height',
+] as const;
+
+type TInlineStyles = Record<typeof inlineStyleProperties[number], string>;
+
+const toStyleValue = (value?: string | number) =>
+  typeof value === 'number' ? `${value}px` : value || '';
+
+const isBefore = (a: IStickyInstance, b: IStickyInstance) =>
+  Boolean(
+    a.placeholder.current.compareDocumentPosition(b.placeholder.current) &
+      Node.DOCUMENT_POSITION_FOLLOWING,
+  );
+
+/**
+ * Coordinates all sticky elements created by `createSticky` and
+ * `createStickyScrollUp` the same way the `StickyProvider` does it for the
+ * components. All elements are measured and updated within the same animation
+ * frame, stacked elements push down the elements that follow.
+ */
+class StickyGroup {
+  private instances: IStickyInstance[] = [];
+  private stickyOffsets: IStickyOffsetEntry[] = [];
+  private scroll: IScroll = createEmptyScroll();
+  private tickId?: number;
+
+  add(instance: IStickyInstance) {
+    if (this.instances.length === 0) {
+      window.addEventListener('scroll', this.scheduleUpdate, {
+        passive: true,
+      });
+      window.addEventListener('resize', this.scheduleUpdate, false);
+    }
+    this.instances.push(instance);
+    this.scheduleUpdate();
+  }
+
+  remove(instance: IStickyInstance) {
+    this.instances = this.instances.filter((i) => i !== instance);
+    this.removeStickyOffset(instance.placeholder);
+    if (this.instances.length === 0) {
+      window.removeEventListener('scroll', this.scheduleUpdate, false);
+      window.removeEventListener('resize', this.scheduleUpdate, false);
+      if (this.tickId !== undefined) {
+        cancelAnimationFrame(this.tickId);
+        this.tickId = undefined;
+      }
+    }
+  }
+
+  getStickyOffset(placeholder: { current: HTMLElement }) {
+    return calcStackedStickyOffset(this.stickyOffsets, placeholder);
+  }
+
+  updateStickyOffset(
+    placeholder: { current: HTMLElement },
+    offset: number,
+    height: number,
+  ) {
+    const entry = this.stickyOffsets.find((e) => e.ref === placeholder);
+    if (entry) {
+      entry.offset = offset;
+      entry.height = height;
+    } else {
+      this.stickyOffsets.push({ ref: placeholder, offset, height });
+    }
+  }
+
+  removeStickyOffset(placeholder: { current: HTMLElement }) {
+    this.stickyOffsets = this.stickyOffsets.filter(
+      (e) => e.ref !== placeholder,
+    );
+  }
+
+  scheduleUpdate = () => {
+    if (this.tickId === undefined) {
+      this.tickId = requestAnimationFrame(this.update);
+    }
+  };
+
+  private update = () => {
+    this.tickId = undefined;
+    this.scroll = calcNextScroll(
+      this.scroll,
+      window.pageXOffset,
+      window.pageYOffset,
+    );
+    const viewport = {
+      scroll: this.scroll,
+      dimensions: getWindowDimensions(),
+    };
+    // stacked offsets are only known for the elements that were updated before
+    this.instances.sort((a, b) => (isBefore(a, b) ? -1 : 1));
+    // measure all elements before the styles of any of them change
+    const snapshots = this.instances.map((instance) => instance.measure());
+    this.instances.forEach((instance, index) =>
+      instance.update(viewport, snapshots[index]),
+    );
+  };
+}
+
+const defaultGroup = new StickyGroup();
+
+// wraps the element with a placeholder that keeps its space within the flow
+const createPlaceholder = (element: HTMLElement) => {
+  const placeholder = document.createElement('div');
+  placeholder.style.position = 'relative';
+  element.parentNode!.insertBefore(placeholder, element);
+  placeholder.appendChild(element);
+  return placeholder;
+};
+
+const removePlaceholder = (element: HTMLElement, placeholder: HTMLElement) => {
+  if (placeholder.parentNode) {
+    placeholder.parentNode.insertBefore(element, placeholder);
+    placeholder.parentNode.removeChild(placeholder);
+  }
+};
+
+const applyPositionStyles = (element: HTMLElement, styles: IPositionStyles) => {
+  const css = toCSSPositionStyles(styles);
+  positionProperties.forEach((property) => {
+    element.style[property] = toStyleValue(css[property]);
+  });
+};
+
+// only changed properties are written to avoid style recalculations
+const applySize = (
+  element: HTMLElement,
+  property: 'width' | 'height',
+  value: string,
+) => {
+  if (element.style[property] !== value) {
+    element.style[property] = value;
+  }
+};
+
+const saveInlineStyles = (element: HTMLElement) =>
+  inlineStyleProperties.reduce((styles, property) => {
+    styles[property] = element.style[property];
+    return styles;
+  }, {} as TInlineStyles);
+
+const restoreInlineStyles = (element: HTMLElement, styles: TInlineStyles) => {
+  inlineStyleProperties.forEach((property) => {
+    element.style[property] = styles[property];
+  });
+};
+
+const createInstance = <S>(
+  element: HTMLElement,
+  initialState: S,
+  getContainer: (placeholder: HTMLElement) => HTMLElement,
+  calcLayout: (
+    viewport: IViewport,
+    snapshot: ISnapshot,
+    placeholder: { current: HTMLElement },
+  ) => { styles: IPositionStyles; state: S },
+  onChange?: (state: S) => void,
+): IStickyHandle => {
+  const placeholder = { current: createPlaceholder(element) };
+  let styles: IPositionStyles | null = null;
+  let state = initialState;
+  let isEnabled = false;
+  let elementStyles: TInlineStyles;
+  let placeholderStyles: TInlineStyles;
+
+  const instance: IStickyInstance = {
+    placeholder,
+    measure: () => ({
+      stickyRect: element.getBoundingClientRect(),
+      placeholderRect: placeholder.current.getBoundingClientRect(),
+      containerRect: getContainer(placeholder.current).getBoundingClientRect(),
+    }),
+    update: (viewport, snapshot) => {
+      const layout = calcLayout(viewport, snapshot, placeholder);
+      const nextStyles = toAlignedPositionStyles(
+        layout.styles,
+        'top',
+        snapshot.placeholderRect,
+      );
+      if (!styles || !shallowEqualPositionStyles(nextStyles, styles)) {
+        styles = nextStyles;
+        applyPositionStyles(element, styles);
+      }
+      // the placeholder keeps the space of the element within the flow
+      applySize(element, 'width', `${snapshot.placeholderRect.width}px`);
+      applySize(
+        placeholder.current,
+        'height',
+        `${snapshot.stickyRect.height}px`,
+      );
+      const prevState = state;
+      state = layout.state;
+      if (
+        onChange &&
+        (Object.keys(state) as Array<keyof S>).some(
+          (key) => state[key] !== prevState[key],
+        )
+      ) {
+        onChange(state);
+      }
+    },
+  };
+
+  const disable = () => {
+    if (!isEnabled) {
+      return;
+    }
+    isEnabled = false;
+    defaultGroup.remove(instance);
+    restoreInlineStyles(element, elementStyles);
+    restoreInlineStyles(placeholder.current, placeholderStyles);
+    styles = null;
+    if (onChange && state !== initialState) {
+      state = initialState;
+      onChange(state);
+    }
+  };
+
+  const enable = () => {
+    if (isEnabled) {
+      return;
+    }
+    isEnabled = true;
+    elementStyles = saveInlineStyles(element);
+    placeholderStyles = saveInlineStyles(placeholder.current);
+    defaultGroup.add(instance);
+  };
+
+  enable();
+  return {
+    update: () => {
+      if (isEnabled) {
+        defaultGroup.scheduleUpdate();
+      }
+    },
+    disable,
+    enable,
+    destroy: () => {
+      disable();
+      removePlaceholder(element, placeholder.current);
+    },
+  };
+};
+
+/**
+ * Makes an element sticky without React. The element is wrapped with a
+ * placeholder that keeps its space within the document while it is sticky.
+ */
+export const createSticky = (
+  element: HTMLElement,
+  {
+    container,
+    offsetTop = 0,
+    overflowScroll = 'end',
+    stacked = false,
+    disableHardwareAcceleration = false,
+    onChange,
+  }: IStickyOptions = {},
+): IStickyHandle =>
+  createInstance<IStickyState>(
+    element,
+    {
+      isSticky: false,
+      isDockedToBottom: false,
+      isNearToViewport: false,
+      appliedOverflowScroll: 'end',
+    },
+    (placeholder) => container || placeholder,
+    ({ scroll, dimensions }, snapshot, placeholder) => {
+      const stickyOffset = defaultGroup.getStickyOffset(placeholder);
+      const layout = calcStickyLayout({
+        edge: 'top',
+        stickyRect: snapshot.stickyRect,
+        containerRect: snapshot.containerRect,
+        scroll,
+        dimensions,
+        disableHardwareAcceleration,
+        options: {
+          hasContainer: Boolean(container),
+          overflowScroll,
+          offsetTop: stickyOffset.top + offsetTop,
+          stickyOffset,
+        },
+      });
+      if (stacked) {
+        const isActive = layout.isSticky || layout.isDocked;
+        defaultGroup.updateStickyOffset(
+          placeholder,
+          isActive ? Math.max(Math.round(snapshot.stickyRect.bottom), 0) : 0,
+          isActive ? stickyOffset.height + snapshot.stickyRect.height : 0,
+        );
+      }
+      return {
+        styles: layout.styles,
+        state: {
+          isSticky: layout.isSticky,
+          isDockedToBottom: layout.isDocked,
+          isNearToViewport: layout.isNearToViewport,
+          appliedOverflowScroll: layout.appliedOverflowScroll,
+        },
+      };
+    },
+    onChange,
+  );
+
+/**
+ * Makes an element sticky without React that is only visible while scrolling
+ * up. It always pushes down the elements created with `stacked` that follow.
+ */
+export const createStickyScrollUp = (
+  element: HTMLElement,
+  {
+    tolerance,
+    disableHardwareAcceleration = false,
+    onChange,
+  }: IStickyScrollUpOptions = {},
+): IStickyHandle =>
+  createInstance<IStickyScrollUpState>(
+    element,
+    { isSticky: false, isNearToViewport: false },
+    (placeholder) => placeholder,
+    ({ scroll }, snapshot, placeholder) => {
+      const layout = calcScrollUpLayout({
+        stickyRect: snapshot.stickyRect,
+        placeholderRect: snapshot.placeholderRect,
+        scroll,
+        disableHardwareAcceleration,
+        tolerance: resolveScrollTolerance(tolerance),
+      });
+      defaultGroup.updateStickyOffset(
+        placeholder,
+        Math.max(Math.round(snapshot.stickyRect.bottom), 0),
+        snapshot.stickyRect.height,
+      );
+      return {
+        styles: layout.styles,
+        state: {
+          isSticky: layout.isSticky,
+          isNearToViewport: layout.isNearToViewport,
+        },
+      };
+    },
+    onChange,
+  );
@@ -1,15 +1,21 @@
 import typescript from 'rollup-plugin-typescript2';
 import pkg from './package.json';
 export default {
-  input: 'lib/index.ts',
+  input: {
+    index: 'lib/index.ts',
+    testing: 'lib/testing.ts',
+    vanilla: 'lib/vanilla.ts',
+  },
   output: [
     {
-      file: pkg.main,
+      dir: 'dist',
+      entryFileNames: '[name].js',
       format: 'cjs',
       sourcemap: true,
     },
     {
-      file: pkg.module,
+      dir: 'dist',
+      entryFileNames: '[name].es.js',
       format: 'es',
       sourcemap: true,
     },
@@ -17,6 +23,7 @@ export default {
   external: [
     ...Object.keys(pkg.dependencies || {}),
     ...Object.keys(pkg.peerDependencies || {}),
+    'react-dom/test-utils',
   ],
   plugins: [
     typescript({